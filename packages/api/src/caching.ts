@@ -0,0 +1,88 @@
+import type { Context, MiddlewareHandler } from 'hono';
+
+// Conditional GET for responses derived from the generated data. The data
+// and the code serving it only change when generate.ts runs at build time,
+// so a hash of both identifies every response. The handler still runs, so
+// that errors such as a 404 are never turned into a 304.
+
+export type DataVersion = {
+  // Hash of the generated models, providers and changelog and of the API
+  // and shared sources, whose changes alter response bodies too
+  hash: string;
+  // When the generated data last changed, as an ISO 8601 timestamp
+  last_modified: string;
+};
+
+// Let shared caches serve a response for a few minutes before revalidating
+export const CACHE_CONTROL = 'public, max-age=300';
+
+const HTTP_OK = 200;
+const HTTP_NOT_MODIFIED = 304;
+const MS_PER_SECOND = 1000;
+
+const ETAG_LIST_SEPARATOR = /\s*,\s*/;
+const WEAK_PREFIX = /^W\//;
+
+// Weak comparison, as RFC 9110 requires for If-None-Match
+function matchesETag(header: string, etag: string): boolean {
+  const tags = header.trim().split(ETAG_LIST_SEPARATOR);
+  return tags.some(
+    (tag) =>
+      tag === '*' ||
+      tag.replace(WEAK_PREFIX, '') === etag.replace(WEAK_PREFIX, '')
+  );
+}
+
+// HTTP dates have one-second precision
+function notModifiedSince(header: string, lastModified: Date): boolean {
+  const since = Date.parse(header);
+  return (
+    !Number.isNaN(since) &&
+    Math.floor(lastModified.getTime() / MS_PER_SECOND) <=
+      Math.floor(since / MS_PER_SECOND)
+  );
+}
+
+// `variant` names the representation when a route serves several formats
+// from one URL, so that each gets its own ETag
+export function conditionalGet(
+  version: DataVersion,
+  variant?: (c: Context) => string | undefined
+): MiddlewareHandler {
+  const lastModified = new Date(version.last_modified);
+  const vary: Record<string, string> =
+    variant === undefined ? {} : { Vary: 'Accept' };
+
+  return async (c, next) => {
+    const tag = variant?.(c);
+    const etag = tag ? `"${version.hash}-${tag}"` : `"${version.hash}"`;
+    const headers: Record<string, string> = {
+      ETag: etag,
+      'Last-Modified': lastModified.toUTCString(),
+      'Cache-Control': CACHE_CONTROL,
+      ...vary,
+    };
+
+    await next();
+    // Only a successful response can be the one the client already has
+    if (c.res.status !== HTTP_OK) {
+      return;
+    }
+
+    // If-None-Match takes precedence; If-Modified-Since is only checked
+    // when it is absent
+    const ifNoneMatch = c.req.header('If-None-Match');
+    const ifModifiedSince = c.req.header('If-Modified-Since');
+    const fresh = ifNoneMatch
+      ? matchesETag(ifNoneMatch, etag)
+      : ifModifiedSince !== undefined &&
+        notModifiedSince(ifModifiedSince, lastModified);
+    if (fresh) {
+      c.res = new Response(null, { status: HTTP_NOT_MODIFIED, headers });
+      return;
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      c.res.headers.set(name, value);
+    }
+  };
+}
@@ -0,0 +1,172 @@
+// Catalog snapshots and the changes between two of them. Used by generate.ts
+// at build time; the server only reads the resulting changelog.
+
+export type SnapshotEntry = {
+  provider: string;
+  name?: string;
+  family?: string;
+  cost?: Record<string, unknown>;
+  limit?: Record<string, unknown>;
+  status?: string;
+};
+
+export type Snapshot = {
+  generated_at: string;
+  models: Record<string, SnapshotEntry>;
+};
+
+export type ChangeType =
+  | 'added'
+  | 'removed'
+  | 'price_changed'
+  | 'limit_changed'
+  | 'deprecated';
+
+export type FieldChange = { field: string; from: unknown; to: unknown };
+
+export type CatalogChange = {
+  date: string;
+  type: ChangeType;
+  model: string;
+  provider: string;
+  name?: string;
+  family?: string;
+  changes?: FieldChange[];
+};
+
+type SnapshotSource = {
+  id: string;
+  provider: string;
+  name?: string;
+  family?: unknown;
+  cost?: Record<string, unknown>;
+  limit?: Record<string, unknown>;
+  status?: unknown;
+};
+
+export function takeSnapshot(
+  models: SnapshotSource[],
+  generatedAt: string
+): Snapshot {
+  const entries: Record<string, SnapshotEntry> = {};
+  for (const model of models) {
+    entries[model.id] = {
+      provider: model.provider,
+      name: model.name,
+      family: typeof model.family === 'string' ? model.family : undefined,
+      cost: model.cost,
+      limit: model.limit,
+      status: typeof model.status === 'string' ? model.status : undefined,
+    };
+  }
+  return { generated_at: generatedAt, models: entries };
+}
+
+// One model per line so that vendor syncs produce readable git diffs
+export function serializeSnapshot(snapshot: Snapshot): string {
+  const ids = Object.keys(snapshot.models).sort();
+  const lines = ids.map(
+    (id) => `    ${JSON.stringify(id)}: ${JSON.stringify(snapshot.models[id])}`
+  );
+  return `{
+  "generated_at": ${JSON.stringify(snapshot.generated_at)},
+  "models": {
+${lines.join(',\n')}
+  }
+}
+`;
+}
+
+// Flatten nested objects into dotted paths, e.g. `context_over_200k.input`
+function flatten(
+  value: Record<string, unknown> | undefined,
+  prefix: string,
+  out: Record<string, unknown> = {}
+): Record<string, unknown> {
+  for (const [key, inner] of Object.entries(value ?? {})) {
+    const path = `${prefix}.${key}`;
+    if (typeof inner === 'object' && inner !== null && !Array.isArray(inner)) {
+      flatten(inner as Record<string, unknown>, path, out);
+    } else {
+      out[path] = inner;
+    }
+  }
+  return out;
+}
+
+function diffFields(
+  prefix: string,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): FieldChange[] {
+  const from = flatten(before, prefix);
+  const to = flatten(after, prefix);
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  const changes: FieldChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (from[field] !== to[field]) {
+      changes.push({
+        field,
+        from: from[field] ?? null,
+        to: to[field] ?? null,
+      });
+    }
+  }
+  return changes;
+}
+
+export function diffSnapshots(
+  previous: Snapshot,
+  next: Snapshot,
+  date: string
+): CatalogChange[] {
+  const changes: CatalogChange[] = [];
+  const change = (
+    type: ChangeType,
+    id: string,
+    entry: SnapshotEntry,
+    fields: FieldChange[] = []
+  ) => {
+    changes.push({
+      date,
+      type,
+      model: id,
+      provider: entry.provider,
+      name: entry.name,
+      family: entry.family,
+      ...(fields.length ? { changes: fields } : {}),
+    });
+  };
+
+  for (const [id, entry] of Object.entries(next.models)) {
+    const before = previous.models[id];
+    if (!before) {
+      change('added', id, entry);
+      continue;
+    }
+
+    const price = diffFields('cost', before.cost, entry.cost);
+    if (price.length) {
+      change('price_changed', id, entry, price);
+    }
+
+    const limits = diffFields('limit', before.limit, entry.limit);
+    if (limits.length) {
+      change('limit_changed', id, entry, limits);
+    }
+
+    if (entry.status === 'deprecated' && before.status !== 'deprecated') {
+      change('deprecated', id, entry, [
+        { field: 'status', from: before.status ?? null, to: entry.status },
+      ]);
+    }
+  }
+
+  for (const [id, entry] of Object.entries(previous.models)) {
+    if (!next.models[id]) {
+      change('removed', id, entry);
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,178 @@
+import type { Model } from '@modelsplus/shared/types';
+import {
+  type ModelFamily,
+  ModelFamilyValues,
+} from '../../../vendor/models.dev/packages/core/src/family';
+
+export type Offering = {
+  id: string;
+  provider: string;
+  name?: string;
+  cost?: { input?: number; output?: number };
+  limit?: { context?: number; input?: number; output?: number };
+  status?: string;
+};
+
+type Range = { min: number; max: number };
+
+export type ModelGroup = {
+  key: string;
+  name?: string;
+  family?: string;
+  providers: string[];
+  offerings: Offering[];
+  cheapest?: Offering;
+  // Only the fields that vary between offerings
+  differences: Partial<
+    Record<
+      'cost_input' | 'cost_output' | 'context' | 'input_limit' | 'output_limit',
+      Range
+    >
+  >;
+};
+
+export type FamilySummary = {
+  family: ModelFamily;
+  models: number;
+  groups: number;
+  providers: number;
+};
+
+// Bedrock-style region and vendor prefixes such as `us.anthropic.`
+const DOTTED_PREFIX = /^([a-z]+\.)+/;
+// Bedrock revisions (`-v1:0`, `-v1`, `-1:0`) and Vertex tags (`@20250929`)
+const REVISION_SUFFIX = /(-v\d+(:\d+)?|-\d+:\d+|@[\w-]+)$/;
+// Release dates appended to ids (`-20250929`, `-2024-08-06`)
+const DATE_SUFFIX = /-(\d{8}|\d{4}-\d{2}-\d{2})$/;
+const LATEST_SUFFIX = /-latest$/;
+// Dotted versions (`4.5`) are written as `4-5` by most providers
+const DOTTED_VERSION = /(\d)\.(\d)/g;
+
+export function isModelFamily(value: string): value is ModelFamily {
+  return (ModelFamilyValues as readonly string[]).includes(value);
+}
+
+// Reduce a provider-specific id to the underlying model it serves
+export function normalizeModelId(id: string): string {
+  const local = id.slice(id.indexOf(':') + 1);
+  let key = (local.split('/').pop() ?? local).toLowerCase();
+  key = key.replace(DOTTED_PREFIX, '');
+  key = key.replace(REVISION_SUFFIX, '');
+  key = key.replace(DATE_SUFFIX, '');
+  key = key.replace(LATEST_SUFFIX, '');
+  return key.replace(DOTTED_VERSION, '$1-$2');
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function toOffering(model: Model): Offering {
+  return {
+    id: model.id,
+    provider: model.provider,
+    name: model.name,
+    cost: model.cost && {
+      input: model.cost.input,
+      output: model.cost.output,
+    },
+    limit: model.limit,
+    status: model.status as string | undefined,
+  };
+}
+
+// Cheapest input price first, output price as tie-breaker, unpriced last
+function compareOfferings(a: Offering, b: Offering): number {
+  const inputA = a.cost?.input ?? Number.POSITIVE_INFINITY;
+  const inputB = b.cost?.input ?? Number.POSITIVE_INFINITY;
+  if (inputA !== inputB) {
+    return inputA < inputB ? -1 : 1;
+  }
+  const outputA = a.cost?.output ?? Number.POSITIVE_INFINITY;
+  const outputB = b.cost?.output ?? Number.POSITIVE_INFINITY;
+  if (outputA !== outputB) {
+    return outputA < outputB ? -1 : 1;
+  }
+  return a.id.localeCompare(b.id);
+}
+
+function range(values: Array<number | undefined>): Range | undefined {
+  const known = values.filter((v): v is number => v !== undefined);
+  if (!known.length) {
+    return;
+  }
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return min === max ? undefined : { min, max };
+}
+
+function buildGroup(key: string, models: Model[]): ModelGroup {
+  const offerings = models.map(toOffering).sort(compareOfferings);
+  const priced = offerings.filter((o) => o.cost?.input !== undefined);
+
+  const differences: ModelGroup['differences'] = {};
+  const ranges = {
+    cost_input: range(offerings.map((o) => o.cost?.input)),
+    cost_output: range(offerings.map((o) => o.cost?.output)),
+    context: range(offerings.map((o) => o.limit?.context)),
+    input_limit: range(offerings.map((o) => o.limit?.input)),
+    output_limit: range(offerings.map((o) => o.limit?.output)),
+  };
+  for (const [field, value] of Object.entries(ranges)) {
+    if (value) {
+      differences[field as keyof typeof ranges] = value;
+    }
+  }
+
+  return {
+    key,
+    name: mostCommon(models.map((m) => m.name)),
+    family: mostCommon(models.map((m) => m.family as string | undefined)),
+    providers: Array.from(new Set(offerings.map((o) => o.provider))),
+    offerings,
+    cheapest: priced[0],
+    differences,
+  };
+}
+
+// Group every model by the underlying model it serves
+export function groupModels(models: Model[]): ModelGroup[] {
+  const buckets = new Map<string, Model[]>();
+  for (const model of models) {
+    const key = normalizeModelId(model.id);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(model);
+    } else {
+      buckets.set(key, [model]);
+    }
+  }
+  return Array.from(buckets, ([key, bucket]) => buildGroup(key, bucket));
+}
+
+export function summarizeFamilies(groups: ModelGroup[]): FamilySummary[] {
+  return ModelFamilyValues.map((family) => {
+    const members = groups.filter((g) => g.family === family);
+    const providers = new Set(members.flatMap((g) => g.providers));
+    return {
+      family,
+      models: members.reduce((sum, g) => sum + g.offerings.length, 0),
+      groups: members.length,
+      providers: providers.size,
+    };
+  }).filter((summary) => summary.models > 0);
+}
@@ -0,0 +1,130 @@
+import type { CatalogChange } from './changes';
+
+// Changes worth announcing; limit changes and removals stay in /v1/changes
+const FEED_CHANGE_TYPES = new Set(['added', 'price_changed', 'deprecated']);
+
+// Keep feeds small enough for readers that refetch them every few minutes
+export const FEED_ENTRY_LIMIT = 100;
+
+export type FeedOptions = {
+  title: string;
+  // Absolute URL of the feed document itself
+  selfUrl: string;
+  // Absolute base URL used to link entries to their model
+  origin: string;
+};
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]);
+}
+
+export function feedChanges(changes: CatalogChange[]): CatalogChange[] {
+  return changes
+    .filter((change) => FEED_CHANGE_TYPES.has(change.type))
+    .slice(-FEED_ENTRY_LIMIT)
+    .reverse();
+}
+
+function entryTitle(change: CatalogChange): string {
+  const label = `${change.name ?? change.model} (${change.provider})`;
+  switch (change.type) {
+    case 'added':
+      return `New model: ${label}`;
+    case 'price_changed':
+      return `Price change: ${label}`;
+    case 'deprecated':
+      return `Deprecated: ${label}`;
+    default:
+      return `${change.type}: ${label}`;
+  }
+}
+
+function entrySummary(change: CatalogChange): string {
+  if (!change.changes?.length) {
+    return `${change.model} was added to the catalog.`;
+  }
+  return change.changes
+    .map((c) => `${c.field}: ${c.from ?? 'none'} → ${c.to ?? 'none'}`)
+    .join('; ');
+}
+
+function entryLink(change: CatalogChange, origin: string): string {
+  return `${origin}/v1/models/${encodeURIComponent(change.model)}`;
+}
+
+function entryId(change: CatalogChange, origin: string): string {
+  const host = new URL(origin).hostname;
+  return `tag:${host},${change.date}:${change.type}:${change.model}`;
+}
+
+// Changes only carry a day, so entries are stamped at midnight UTC
+function toDateTime(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+export function renderAtom(
+  changes: CatalogChange[],
+  options: FeedOptions
+): string {
+  const updated = changes[0] ? toDateTime(changes[0].date) : new Date(0);
+  const entries = changes.map(
+    (change) => `  <entry>
+    <id>${escapeXml(entryId(change, options.origin))}</id>
+    <title>${escapeXml(entryTitle(change))}</title>
+    <link href="${escapeXml(entryLink(change, options.origin))}"/>
+    <updated>${toDateTime(change.date).toISOString()}</updated>
+    <category term="${change.type}"/>
+    <summary>${escapeXml(entrySummary(change))}</summary>
+  </entry>`
+  );
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(options.selfUrl)}</id>
+  <title>${escapeXml(options.title)}</title>
+  <link rel="self" href="${escapeXml(options.selfUrl)}"/>
+  <link href="${escapeXml(options.origin)}"/>
+  <updated>${updated.toISOString()}</updated>
+  <author><name>Models PLUS</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function renderRss(
+  changes: CatalogChange[],
+  options: FeedOptions
+): string {
+  const updated = changes[0] ? toDateTime(changes[0].date) : new Date(0);
+  const items = changes.map(
+    (change) => `    <item>
+      <guid isPermaLink="false">${escapeXml(entryId(change, options.origin))}</guid>
+      <title>${escapeXml(entryTitle(change))}</title>
+      <link>${escapeXml(entryLink(change, options.origin))}</link>
+      <pubDate>${toDateTime(change.date).toUTCString()}</pubDate>
+      <category>${change.type}</category>
+      <description>${escapeXml(entrySummary(change))}</description>
+    </item>`
+  );
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${escapeXml(options.origin)}</link>
+    <description>New models, price changes and deprecations in the Models PLUS catalog</description>
+    <atom:link href="${escapeXml(options.selfUrl)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
@@ -0,0 +1,224 @@
+// Alternative representations of list responses, chosen with `format=` or
+// the Accept header: CSV with nested fields flattened into dotted columns,
+// newline-delimited JSON streamed one record per line, and YAML.
+
+export const EXPORT_FORMATS = ['json', 'csv', 'ndjson', 'yaml'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  yaml: 'application/yaml',
+};
+
+// Media types accepted for each format, including common aliases
+const MEDIA_TYPES: Record<string, ExportFormat> = {
+  'application/json': 'json',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+};
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// `format=` wins over Accept; anything unrecognised falls back to JSON
+export function negotiateFormat(
+  format: string | undefined,
+  accept: string | undefined
+): ExportFormat {
+  if (format && isExportFormat(format)) {
+    return format;
+  }
+  let best: ExportFormat = 'json';
+  let bestQuality = 0;
+  for (const range of accept?.split(',') ?? []) {
+    const [mediaType, ...params] = range.split(';').map((part) => part.trim());
+    const candidate = MEDIA_TYPES[mediaType.toLowerCase()];
+    const quality = Number(
+      params.find((param) => param.startsWith('q='))?.slice(2) ?? 1
+    );
+    if (candidate && quality > bestQuality) {
+      best = candidate;
+      bestQuality = quality;
+    }
+  }
+  return best;
+}
+
+// CSV (RFC 4180)
+
+// Lists become a single cell, e.g. `text;image`
+const LIST_SEPARATOR = ';';
+const CSV_SPECIAL = /[",\r\n]/;
+const QUOTE = /"/g;
+
+function flattenInto(
+  row: Record<string, unknown>,
+  value: unknown,
+  prefix: string
+): void {
+  if (Array.isArray(value)) {
+    row[prefix] = value.join(LIST_SEPARATOR);
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, nested] of Object.entries(value)) {
+      flattenInto(row, nested, prefix ? `${prefix}.${key}` : key);
+    }
+  } else {
+    row[prefix] = value;
+  }
+}
+
+// `{ cost: { input: 3 } }` becomes `{ 'cost.input': 3 }`
+export function flattenRecord(
+  record: Record<string, unknown>
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  flattenInto(row, record, '');
+  return row;
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return CSV_SPECIAL.test(text) ? `"${text.replace(QUOTE, '""')}"` : text;
+}
+
+// Columns appear in the order their top-level field is first seen, so
+// nested columns such as `cost.*` stay together
+function csvColumns(rows: Record<string, unknown>[]): string[] {
+  const groups = new Map<string, Set<string>>();
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      const group = column.split('.')[0];
+      if (!groups.has(group)) {
+        groups.set(group, new Set());
+      }
+      groups.get(group)?.add(column);
+    }
+  }
+  return [...groups.values()].flatMap((columns) => [...columns]);
+}
+
+export function toCSV(items: Record<string, unknown>[]): string {
+  const rows = items.map(flattenRecord);
+  const columns = csvColumns(rows);
+  const lines = [
+    columns.map(csvCell).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => csvCell(row[column])).join(',')
+    ),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// NDJSON
+
+// Records are serialized as the stream is read rather than all up front
+export function toNDJSONStream(items: unknown[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (index >= items.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(`${JSON.stringify(items[index])}\n`));
+      index++;
+    },
+  });
+}
+
+// YAML
+
+const YAML_INDENT = '  ';
+// Plain scalars that YAML would not read back as another type
+const PLAIN_STRING = /^[A-Za-z_][\w ./()-]*$/;
+const YAML_RESERVED = /^(?:true|false|yes|no|on|off|null|y|n)$/i;
+const TRAILING_SPACE = /\s$/;
+
+function yamlString(value: string): string {
+  return PLAIN_STRING.test(value) &&
+    !YAML_RESERVED.test(value) &&
+    !TRAILING_SPACE.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return yamlString(value);
+  }
+  return String(value);
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length === 0
+    : typeof value === 'object' &&
+        value !== null &&
+        Object.keys(value).length === 0;
+}
+
+function yamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (
+        typeof item !== 'object' ||
+        item === null ||
+        isEmptyCollection(item)
+      ) {
+        return [`${indent}- ${yamlInline(item)}`];
+      }
+      // The first line of the item shares the dash
+      const [first, ...rest] = yamlLines(item, `${indent}${YAML_INDENT}`);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value)
+      .filter(([, nested]) => nested !== undefined)
+      .flatMap(([key, nested]) =>
+        typeof nested === 'object' &&
+        nested !== null &&
+        !isEmptyCollection(nested)
+          ? [
+              `${indent}${yamlString(key)}:`,
+              ...yamlLines(nested, `${indent}${YAML_INDENT}`),
+            ]
+          : [`${indent}${yamlString(key)}: ${yamlInline(nested)}`]
+      );
+  }
+  return [`${indent}${yamlScalar(value)}`];
+}
+
+function yamlInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (typeof value === 'object' && value !== null) {
+    return '{}';
+  }
+  return yamlScalar(value);
+}
+
+export function toYAML(value: unknown): string {
+  if (isEmptyCollection(value) || typeof value !== 'object' || !value) {
+    return `${yamlInline(value)}\n`;
+  }
+  return `${yamlLines(value, '').join('\n')}\n`;
+}
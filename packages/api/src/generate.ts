@@ -1,88 +1,185 @@
+import { createHash } from 'node:crypto';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { parse } from '@iarna/toml';
-
-type Model = {
-  id: string;
-  name?: string;
-  provider: string;
-  modalities?: { input?: string[]; output?: string[] };
-  context?: number;
-  tool_call?: boolean;
-  reasoning?: boolean;
-  cost?: Record<string, unknown>;
-  [k: string]: unknown;
-};
-
-type Provider = {
-  id: string;
-  name?: string;
-  [k: string]: unknown;
-};
-
-async function loadDB(
-  root: string
-): Promise<{ models: Model[]; providers: Provider[] }> {
-  const providers: Provider[] = [];
-  const models: Model[] = [];
-  const providersDir = `${root}/providers`;
+import { loadDB } from '@modelsplus/shared/loader';
+import {
+  buildSearchIndex,
+  MODEL_SEARCH_FIELDS,
+  PROVIDER_SEARCH_FIELDS,
+} from '@modelsplus/shared/search';
+import type { Model } from '@modelsplus/shared/types';
+import {
+  type DataReport,
+  DataValidationError,
+  formatIssues,
+  type SkippedEntry,
+} from '@modelsplus/shared/validate';
+import type { DataVersion } from './caching';
+import {
+  type CatalogChange,
+  diffSnapshots,
+  type Snapshot,
+  serializeSnapshot,
+  takeSnapshot,
+} from './changes';
 
+// Persistent build history, committed alongside the vendor data
+const SNAPSHOT_PATH = 'data/snapshot.json';
+const CHANGELOG_PATH = 'data/changelog.json';
+
+async function readJSON<T>(file: string): Promise<T | undefined> {
   try {
-    const providerDirs = await fs.readdir(providersDir);
-
-    for (const providerId of providerDirs) {
-      const providerPath = `${providersDir}/${providerId}/provider.toml`;
-
-      try {
-        const providerContent = await fs.readFile(providerPath, 'utf8');
-        const prov = parse(providerContent) as Omit<Provider, 'id'>;
-        providers.push({ id: providerId, ...prov });
-
-        // Load models for this provider
-        const modelsDir = `${providersDir}/${providerId}/models`;
-        try {
-          const modelFiles = await fs.readdir(modelsDir);
-
-          for (const modelFile of modelFiles) {
-            if (modelFile.endsWith('.toml')) {
-              const modelPath = `${modelsDir}/${modelFile}`;
-              const modelContent = await fs.readFile(modelPath, 'utf8');
-              const m = parse(modelContent) as Omit<Model, 'id' | 'provider'>;
-              const mid = modelFile.replace('.toml', '');
-              const id = `${providerId}:${mid}`;
-              models.push({ id, provider: providerId, ...m });
-            }
-          }
-        } catch (_error) {
-          // Ignore errors for individual model files that can't be parsed
-        }
-      } catch (_error) {
-        // Ignore errors for providers that can't be loaded
-      }
-    }
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
   } catch (_error) {
-    // Ignore errors during database loading
+    return;
+  }
+}
+
+// Skipped entries are unreadable or invalid, not gone: keep their last
+// known state so they are neither reported removed now nor added once fixed
+function carrySkipped(
+  previous: Snapshot,
+  snapshot: Snapshot,
+  skipped: SkippedEntry[]
+) {
+  const ids = new Set(skipped.map((entry) => `${entry.kind}:${entry.id}`));
+  for (const [id, entry] of Object.entries(previous.models)) {
+    if (
+      !snapshot.models[id] &&
+      (ids.has(`model:${id}`) || ids.has(`provider:${entry.provider}`))
+    ) {
+      snapshot.models[id] = entry;
+    }
+  }
+}
+
+// Diff against the previous generation and append to the changelog
+async function recordChanges(
+  models: Model[],
+  skipped: SkippedEntry[]
+): Promise<CatalogChange[]> {
+  const today = new Date().toISOString().slice(0, 10);
+  const snapshot = takeSnapshot(models, today);
+  const previous = await readJSON<Snapshot>(SNAPSHOT_PATH);
+  const changelog = (await readJSON<CatalogChange[]>(CHANGELOG_PATH)) ?? [];
+  if (previous) {
+    carrySkipped(previous, snapshot, skipped);
+  }
+
+  // The first snapshot is a baseline, not a list of additions
+  const changes = previous ? diffSnapshots(previous, snapshot, today) : [];
+  changelog.push(...changes);
+
+  const unchanged =
+    previous &&
+    JSON.stringify(previous.models) === JSON.stringify(snapshot.models);
+  await fs.mkdir(path.dirname(SNAPSHOT_PATH), { recursive: true });
+  if (!unchanged) {
+    await fs.writeFile(SNAPSHOT_PATH, serializeSnapshot(snapshot));
+  }
+  await fs.writeFile(CHANGELOG_PATH, `${JSON.stringify(changelog, null, 2)}\n`);
+  return changelog;
+}
+
+const REPORT_PATH = 'src/data-report.json';
+const VERSION_PATH = 'src/data-version.json';
+// Hex digits of the hash kept for ETags
+const HASH_LENGTH = 32;
+
+// Sources that shape the responses, relative to packages/api
+const SOURCE_DIRS = ['src', '../shared/src'];
+
+// Every TypeScript source with its path, in a stable order
+async function readSources(): Promise<string[]> {
+  const sources: string[] = [];
+  for (const dir of SOURCE_DIRS) {
+    const files = await fs.readdir(dir, { recursive: true });
+    for (const file of files.filter((f) => f.endsWith('.ts')).sort()) {
+      const source = path.join(dir, file);
+      sources.push(source, await fs.readFile(source, 'utf8'));
+    }
   }
+  return sources;
+}
 
-  return { models, providers };
+// Hash the generated files together with the code serving them, so that a
+// change to a response's shape gets a new ETag even when the data is the
+// same; the modification time only moves when the hash does
+async function writeDataVersion(files: string[]): Promise<void> {
+  const hash = createHash('sha256');
+  for (const file of [...files, ...(await readSources())]) {
+    hash.update(file);
+  }
+  const digest = hash.digest('hex').slice(0, HASH_LENGTH);
+  const previous = await readJSON<DataVersion>(VERSION_PATH);
+  const version: DataVersion = {
+    hash: digest,
+    last_modified:
+      previous?.hash === digest
+        ? previous.last_modified
+        : new Date().toISOString(),
+  };
+  await fs.writeFile(VERSION_PATH, JSON.stringify(version, null, 2));
 }
 
+// `--lenient` (or GENERATE_LENIENT=1) skips invalid entries instead of failing
+const LENIENT =
+  process.argv.includes('--lenient') || process.env.GENERATE_LENIENT === '1';
+
 async function generate() {
   // Resolve vendor path relative to this file so it works in any environment
   const __dirname = path.dirname(fileURLToPath(import.meta.url));
   const root = path.resolve(__dirname, '../../../vendor/models.dev');
 
-  const db = await loadDB(root);
+  // Always load leniently so the report lists every issue; strict mode fails
+  // below once it is written
+  const db = await loadDB(root, { lenient: true });
+  const report: DataReport = {
+    generated_at: new Date().toISOString(),
+    mode: LENIENT ? 'lenient' : 'strict',
+    providers: db.providers.length,
+    models: db.models.length,
+    errors: db.errors,
+    skipped: db.skipped,
+  };
+  await fs.writeFile(REPORT_PATH, JSON.stringify(report, null, 2));
+
+  if (db.errors.length && !LENIENT) {
+    throw new DataValidationError(db.errors);
+  }
+  if (db.skipped.length) {
+    const unreadable = db.skipped.flatMap(({ file, reason }) =>
+      reason ? [{ file, path: '', message: reason }] : []
+    );
+    process.stderr.write(
+      `Skipped ${db.skipped.length} ${db.skipped.length === 1 ? 'entry' : 'entries'} (see ${REPORT_PATH}):\n${formatIssues([...unreadable, ...db.errors])}\n`
+    );
+  }
+
+  const changelog = await recordChanges(db.models, db.skipped);
 
   // Write the generated data to src (so they can be imported by TypeScript)
-  await fs.writeFile('src/models.json', JSON.stringify(db.models, null, 2));
+  const models = JSON.stringify(db.models, null, 2);
+  const providers = JSON.stringify(db.providers, null, 2);
+  const changes = JSON.stringify(changelog, null, 2);
+  await fs.writeFile('src/models.json', models);
+  await fs.writeFile('src/providers.json', providers);
+  await fs.writeFile('src/changelog.json', changes);
+  await writeDataVersion([models, providers, changes]);
+  // Prebuilt search index, so the server doesn't tokenize the catalog on startup
   await fs.writeFile(
-    'src/providers.json',
-    JSON.stringify(db.providers, null, 2)
+    'src/search-index.json',
+    JSON.stringify({
+      models: buildSearchIndex(db.models, MODEL_SEARCH_FIELDS),
+      providers: buildSearchIndex(db.providers, PROVIDER_SEARCH_FIELDS),
+    })
   );
 }
 
-generate().catch(() => {
-  // Ignore errors during generation
+generate().catch((error: unknown) => {
+  process.stderr.write(
+    `${error instanceof Error ? error.message : String(error)}\n`
+  );
+  process.exit(1);
 });
@@ -0,0 +1,140 @@
+import {
+  type DocumentNode,
+  type ExecutionResult,
+  execute,
+  GraphQLError,
+  type GraphQLSchema,
+  getOperationAST,
+  OperationTypeNode,
+  parse,
+  specifiedRules,
+  validate,
+} from 'graphql';
+import { maxDepthRule } from './graphql';
+
+// GraphQL over HTTP, JSON only, for the schema in graphql.ts. Parsing,
+// validation and execution are graphql-js's; this reads the request and
+// picks the status code.
+
+const HTTP_OK = 200;
+const HTTP_BAD_REQUEST = 400;
+
+const VALIDATION_RULES = [...specifiedRules, maxDepthRule];
+
+type GraphQLParams = {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkParams(raw: Record<string, unknown>): GraphQLParams {
+  const { query, variables, operationName } = raw;
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new GraphQLError('Must provide query string.');
+  }
+  if (variables != null && !isRecord(variables)) {
+    throw new GraphQLError('Variables must be an object.');
+  }
+  if (operationName != null && typeof operationName !== 'string') {
+    throw new GraphQLError('Operation name must be a string.');
+  }
+  return {
+    query,
+    variables: variables ?? undefined,
+    operationName: operationName ?? undefined,
+  };
+}
+
+function parseJSON(text: string, what: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new GraphQLError(`${what} must be valid JSON.`);
+  }
+}
+
+// GET takes the parameters from the query string; POST from a JSON body,
+// or the query alone as an application/graphql body
+async function readParams(request: Request): Promise<GraphQLParams> {
+  if (request.method === 'GET') {
+    const search = new URL(request.url).searchParams;
+    const variables = search.get('variables');
+    return checkParams({
+      query: search.get('query'),
+      variables: variables ? parseJSON(variables, 'Variables') : undefined,
+      operationName: search.get('operationName'),
+    });
+  }
+  const body = await request.text();
+  if (request.headers.get('Content-Type')?.startsWith('application/graphql')) {
+    return checkParams({ query: body });
+  }
+  const params = parseJSON(body, 'Request body');
+  if (!isRecord(params)) {
+    throw new GraphQLError('Request body must be a JSON object.');
+  }
+  return checkParams(params);
+}
+
+async function runQuery(
+  schema: GraphQLSchema,
+  params: GraphQLParams
+): Promise<ExecutionResult> {
+  let document: DocumentNode;
+  try {
+    document = parse(params.query);
+  } catch (error) {
+    if (error instanceof GraphQLError) {
+      return { errors: [error] };
+    }
+    throw error;
+  }
+  const errors = validate(schema, document, VALIDATION_RULES);
+  if (errors.length) {
+    return { errors };
+  }
+  // The schema has no mutation or subscription type
+  const operation = getOperationAST(document, params.operationName);
+  if (operation && operation.operation !== OperationTypeNode.QUERY) {
+    return {
+      errors: [
+        new GraphQLError(
+          `Only queries are supported, not ${operation.operation}s.`,
+          { nodes: operation }
+        ),
+      ],
+    };
+  }
+  return await execute({
+    schema,
+    document,
+    variableValues: params.variables,
+    operationName: params.operationName,
+    // Per request, for the resolvers' object count
+    contextValue: {},
+  });
+}
+
+// Requests that fail before execution (no `data`) are 400s; field errors
+// come back with a 200 alongside the partial data
+export async function handleGraphQLRequest(
+  request: Request,
+  schema: GraphQLSchema
+): Promise<Response> {
+  let result: ExecutionResult;
+  try {
+    result = await runQuery(schema, await readParams(request));
+  } catch (error) {
+    if (!(error instanceof GraphQLError)) {
+      throw error;
+    }
+    result = { errors: [error] };
+  }
+  return Response.json(result, {
+    status: result.data === undefined ? HTTP_BAD_REQUEST : HTTP_OK,
+  });
+}
@@ -0,0 +1,396 @@
+import {
+  filterModels,
+  filterProviders,
+  parseModelFilters,
+  parseModelQuery,
+  parseProviderQuery,
+  queryModels,
+  queryProviders,
+} from '@modelsplus/shared/query';
+import type { Model, Provider } from '@modelsplus/shared/types';
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  type GraphQLFieldConfigArgumentMap,
+  GraphQLFloat,
+  GraphQLID,
+  type GraphQLInputType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind,
+  type SelectionNode,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule,
+} from 'graphql';
+import {
+  checkArguments,
+  describeArgument,
+  formatIssues,
+  type ParamSpec,
+  ROUTES,
+} from './openapi';
+
+// GraphQL schema over the catalog, served at /graphql. Filter, sort and
+// pagination arguments are derived from the REST parameter specs and go
+// through the same validation and query engine, so
+//   { providers { id models(reasoning: true, sort: cost_input, limit: 3) { id } } }
+// returns what /v1/providers and /v1/models?provider=…&reasoning=true&… would.
+
+const GRAPHQL_LIMITS = { maxDepth: 8, maxObjects: 100_000 };
+
+// REST parameters without a GraphQL counterpart: the selection set picks
+// the fields, responses are always JSON and lists page by limit and offset
+const REST_ONLY_PARAMS = new Set(['cursor', 'envelope', 'format', 'fields']);
+
+const SCALAR_TYPES: Record<ParamSpec['type'], GraphQLInputType> = {
+  string: GraphQLString,
+  number: GraphQLFloat,
+  integer: GraphQLInt,
+  boolean: GraphQLBoolean,
+  date: GraphQLString,
+};
+
+function enumFrom(
+  params: ParamSpec[],
+  param: string,
+  name: string
+): GraphQLEnumType {
+  const spec = params.find((p) => p.name === param);
+  return new GraphQLEnumType({
+    name,
+    description: spec?.description,
+    values: Object.fromEntries(
+      (spec?.enum ?? []).map((value) => [value, { value }])
+    ),
+  });
+}
+
+function argumentsFrom(
+  params: ParamSpec[],
+  enums: Record<string, GraphQLEnumType>,
+  exclude: string[] = []
+): GraphQLFieldConfigArgumentMap {
+  const args: GraphQLFieldConfigArgumentMap = {};
+  for (const spec of params) {
+    if (REST_ONLY_PARAMS.has(spec.name) || exclude.includes(spec.name)) {
+      continue;
+    }
+    const type = enums[spec.name] ?? SCALAR_TYPES[spec.type];
+    args[spec.name] = {
+      type: spec.list ? new GraphQLList(new GraphQLNonNull(type)) : type,
+      description: describeArgument(spec),
+    };
+  }
+  return args;
+}
+
+// Arguments are checked against the REST specs for what the GraphQL types
+// can't express, such as minimums, date formats and filter syntax. An
+// explicit null leaves the argument unset.
+function toParams(
+  params: ParamSpec[],
+  args: Record<string, unknown>
+): Record<string, string> {
+  const given = Object.fromEntries(
+    Object.entries(args).filter(([, value]) => value != null)
+  );
+  const { values, issues } = checkArguments(params, given);
+  if (issues.length) {
+    throw new GraphQLError(`Invalid arguments: ${formatIssues(issues)}`);
+  }
+  return values;
+}
+
+// Models and providers listed so far, per request context
+const listed = new WeakMap<object, number>();
+
+// Lists count towards `maxObjects`, which bounds what nesting such as
+// providers { models { provider { models … } } } can multiply into
+function countListed<T>(context: object, items: T[]): T[] {
+  const total = (listed.get(context) ?? 0) + items.length;
+  if (total > GRAPHQL_LIMITS.maxObjects) {
+    throw new GraphQLError(
+      `Query returns more than ${GRAPHQL_LIMITS.maxObjects} models and providers; narrow it with filters or limit.`
+    );
+  }
+  listed.set(context, total);
+  return items;
+}
+
+// Fields nested in a selection, following fragment spreads; cycles are
+// reported by the standard NoFragmentCyclesRule
+function selectionDepth(
+  context: ValidationContext,
+  selection: SelectionNode,
+  visiting: Set<string>
+): number {
+  if (selection.kind === Kind.FIELD) {
+    return (
+      1 +
+      (selection.selectionSet
+        ? selectionSetDepth(context, selection.selectionSet, visiting)
+        : 0)
+    );
+  }
+  if (selection.kind === Kind.INLINE_FRAGMENT) {
+    return selectionSetDepth(context, selection.selectionSet, visiting);
+  }
+  const name = selection.name.value;
+  const fragment = context.getFragment(name);
+  if (!fragment || visiting.has(name)) {
+    return 0;
+  }
+  visiting.add(name);
+  const depth = selectionSetDepth(context, fragment.selectionSet, visiting);
+  visiting.delete(name);
+  return depth;
+}
+
+function selectionSetDepth(
+  context: ValidationContext,
+  selectionSet: SelectionSetNode,
+  visiting: Set<string>
+): number {
+  return Math.max(
+    0,
+    ...selectionSet.selections.map((selection) =>
+      selectionDepth(context, selection, visiting)
+    )
+  );
+}
+
+// Validation rule rejecting operations nested more than `maxDepth` fields deep
+export const maxDepthRule: ValidationRule = (context) => ({
+  OperationDefinition(operation) {
+    const depth = selectionSetDepth(context, operation.selectionSet, new Set());
+    if (depth > GRAPHQL_LIMITS.maxDepth) {
+      context.reportError(
+        new GraphQLError(
+          `Query is nested ${depth} levels deep, more than the maximum of ${GRAPHQL_LIMITS.maxDepth}.`,
+          { nodes: operation }
+        )
+      );
+    }
+  },
+});
+
+const COST_FIELDS = [
+  'input',
+  'output',
+  'reasoning',
+  'cache_read',
+  'cache_write',
+  'input_audio',
+  'output_audio',
+];
+
+const COST_TYPE: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Cost',
+  description: 'Prices in USD per 1M tokens',
+  fields: () => ({
+    ...Object.fromEntries(
+      COST_FIELDS.map((name) => [name, { type: GraphQLFloat }])
+    ),
+    context_over_200k: {
+      type: COST_TYPE,
+      description: 'Prices once the prompt exceeds 200K tokens',
+    },
+  }),
+});
+
+const LIMIT_TYPE = new GraphQLObjectType({
+  name: 'Limit',
+  description: 'Token limits',
+  fields: {
+    context: { type: GraphQLInt },
+    input: { type: GraphQLInt },
+    output: { type: GraphQLInt },
+  },
+});
+
+const STRING_LIST = new GraphQLList(new GraphQLNonNull(GraphQLString));
+
+const MODALITIES_TYPE = new GraphQLObjectType({
+  name: 'Modalities',
+  fields: {
+    input: { type: STRING_LIST, description: 'Accepted modalities' },
+    output: { type: STRING_LIST, description: 'Produced modalities' },
+  },
+});
+
+const SCORE_DESCRIPTION = 'Match score for `q` when sorted by relevance';
+
+export function createGraphQLSchema(
+  models: Model[],
+  providers: Provider[]
+): GraphQLSchema {
+  const modelParams = ROUTES.models.params;
+  const countParams = ROUTES.modelsCount.params;
+  const providerParams = ROUTES.providers.params;
+  const providerCountParams = ROUTES.providersCount.params;
+
+  // Enum types for the parameters that take a fixed set of values
+  const modelEnums = {
+    sort: enumFrom(modelParams, 'sort', 'ModelSort'),
+    order: enumFrom(modelParams, 'order', 'SortOrder'),
+    modalities: enumFrom(modelParams, 'modalities', 'Modality'),
+  };
+  const providerEnums = {
+    sort: enumFrom(providerParams, 'sort', 'ProviderSort'),
+  };
+
+  const providersById = new Map(providers.map((p) => [p.id, p]));
+  // Each provider's models, so that nested lists only scan their own
+  const modelsByProvider = new Map<string, Model[]>();
+  for (const model of models) {
+    const group = modelsByProvider.get(model.provider) ?? [];
+    group.push(model);
+    modelsByProvider.set(model.provider, group);
+  }
+  const modelsOf = (provider: Provider) =>
+    modelsByProvider.get(provider.id) ?? [];
+
+  const modelType: GraphQLObjectType<Model, object> = new GraphQLObjectType({
+    name: 'Model',
+    fields: () => ({
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      name: { type: GraphQLString },
+      family: { type: GraphQLString },
+      provider_id: {
+        type: new GraphQLNonNull(GraphQLString),
+        resolve: (m: Model) => m.provider,
+      },
+      provider: {
+        type: providerType,
+        resolve: (m: Model) => providersById.get(m.provider),
+      },
+      release_date: { type: GraphQLString },
+      last_updated: { type: GraphQLString },
+      knowledge: { type: GraphQLString, description: 'Knowledge cutoff' },
+      status: { type: GraphQLString, description: 'e.g. deprecated' },
+      attachment: { type: GraphQLBoolean },
+      reasoning: { type: GraphQLBoolean },
+      temperature: { type: GraphQLBoolean },
+      tool_call: { type: GraphQLBoolean },
+      open_weights: { type: GraphQLBoolean },
+      structured_output: { type: GraphQLBoolean },
+      cost: { type: COST_TYPE },
+      limit: { type: LIMIT_TYPE },
+      modalities: { type: MODALITIES_TYPE },
+      score: { type: GraphQLFloat, description: SCORE_DESCRIPTION },
+    }),
+  });
+
+  const modelList = new GraphQLNonNull(
+    new GraphQLList(new GraphQLNonNull(modelType))
+  );
+
+  const providerType: GraphQLObjectType<Provider, object> =
+    new GraphQLObjectType({
+      name: 'Provider',
+      fields: () => ({
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        name: { type: new GraphQLNonNull(GraphQLString) },
+        env: {
+          type: new GraphQLNonNull(STRING_LIST),
+          description: 'Environment variables holding credentials',
+        },
+        npm: { type: GraphQLString, description: 'AI SDK package' },
+        api: { type: GraphQLString, description: 'Base URL of the API' },
+        doc: { type: GraphQLString, description: 'Documentation URL' },
+        models: {
+          type: modelList,
+          description: 'Models served by this provider',
+          args: argumentsFrom(modelParams, modelEnums, ['provider']),
+          resolve: (p: Provider, args, context: object) =>
+            countListed(
+              context,
+              queryModels(
+                modelsOf(p),
+                parseModelQuery(toParams(modelParams, args))
+              ).items
+            ),
+        },
+        model_count: {
+          type: new GraphQLNonNull(GraphQLInt),
+          args: argumentsFrom(countParams, modelEnums, ['provider']),
+          resolve: (p: Provider, args) =>
+            filterModels(
+              modelsOf(p),
+              parseModelFilters(toParams(countParams, args))
+            ).length,
+        },
+        score: { type: GraphQLFloat, description: SCORE_DESCRIPTION },
+      }),
+    });
+
+  const queryType = new GraphQLObjectType({
+    name: 'Query',
+    fields: {
+      models: {
+        type: modelList,
+        description: 'List and search models',
+        args: argumentsFrom(modelParams, modelEnums),
+        resolve: (_, args, context: object) =>
+          countListed(
+            context,
+            queryModels(models, parseModelQuery(toParams(modelParams, args)))
+              .items
+          ),
+      },
+      model_count: {
+        type: new GraphQLNonNull(GraphQLInt),
+        description: 'Count models matching the filters',
+        args: argumentsFrom(countParams, modelEnums),
+        resolve: (_, args) =>
+          filterModels(models, parseModelFilters(toParams(countParams, args)))
+            .length,
+      },
+      model: {
+        type: modelType,
+        description: 'Get a model',
+        args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+        resolve: (_, { id }) => models.find((m) => m.id === id),
+      },
+      providers: {
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(providerType))
+        ),
+        description: 'List and search providers',
+        args: argumentsFrom(providerParams, providerEnums),
+        resolve: (_, args, context: object) =>
+          countListed(
+            context,
+            queryProviders(
+              providers,
+              parseProviderQuery(toParams(providerParams, args))
+            ).items
+          ),
+      },
+      provider_count: {
+        type: new GraphQLNonNull(GraphQLInt),
+        description: 'Count providers matching the filters',
+        args: argumentsFrom(providerCountParams, providerEnums),
+        resolve: (_, args) =>
+          filterProviders(
+            providers,
+            parseProviderQuery(toParams(providerCountParams, args))
+          ).length,
+      },
+      provider: {
+        type: providerType,
+        description: 'Get a provider',
+        args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+        resolve: (_, { id }) => providersById.get(id),
+      },
+    },
+  });
+
+  return new GraphQLSchema({ query: queryType });
+}
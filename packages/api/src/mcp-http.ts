@@ -4,35 +4,101 @@ import { fileURLToPath } from 'node:url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   ErrorCode,
-  InitializeRequestSchema,
-  type InitializeResult,
-  type JSONRPCRequest,
+  GetPromptRequestSchema,
+  isInitializeRequest,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
   type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
+import {
+  compareModels,
+  MAX_COMPARE_MODELS,
+  type ModelComparison,
+} from '@modelsplus/shared/compare';
+import {
+  type CompletionCatalog,
+  CompletionError,
+  completeArgument,
+} from '@modelsplus/shared/completions';
+import {
+  continuationNote,
+  DEFAULT_MAX_TOKENS,
+  MIN_MAX_TOKENS,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  renderModelResults,
+  renderProviderResults,
+} from '@modelsplus/shared/output';
+import {
+  getPrompt,
+  PROMPTS,
+  type PromptCatalog,
+  PromptError,
+} from '@modelsplus/shared/prompts';
+import {
+  type ModelQuery,
+  modelCursorAfter,
+  modelKeyFields,
+  type ProviderQuery,
+  parseModelQuery,
+  providerCursorAfter,
+  type QueryResult,
+  queryModels,
+  queryProviders,
+  selectFields,
+} from '@modelsplus/shared/query';
+import {
+  type CatalogResource,
+  MODEL_URI_TEMPLATE,
+  matchesModelRef,
+  modelResource,
+  PROVIDER_URI_TEMPLATE,
+  parseResourceUri,
+  providerResource,
+  RESOURCE_MIME_TYPE,
+} from '@modelsplus/shared/resources';
+import {
+  MODEL_SEARCH_FIELDS,
+  PROVIDER_SEARCH_FIELDS,
+  registerSearchIndex,
+  type SearchIndex,
+} from '@modelsplus/shared/search';
+import {
+  summarizeComparison,
+  summarizeModel,
+  summarizeProvider,
+} from '@modelsplus/shared/summary';
+import type { Model, Provider } from '@modelsplus/shared/types';
+import type { DataVersion } from './caching';
+import {
+  jsonRPCErrorResponse,
+  SERVER_ERROR,
+  SESSION_NOT_FOUND,
+  StreamableHTTPTransport,
+} from './mcp-transport';
+import {
+  argumentsSchema,
+  checkArguments,
+  componentSchema,
+  formatIssues,
+  ROUTES,
+} from './openapi';
 
 // Constants for pagination limits
 const DEFAULT_MODELS_LIMIT = 50;
 const DEFAULT_PROVIDERS_LIMIT = 20;
+const RESOURCES_PAGE_SIZE = 1000;
 
-// JSON-RPC response type
-type JSONRPCResponse = {
-  jsonrpc: '2.0';
-  id: string | number | null;
-  result?: unknown;
-  error?: {
-    code: number;
-    message: string;
-    data?: unknown;
-  };
-};
-
-// Tool call parameters type
-type ToolCallParams = {
-  name: string;
-  arguments: unknown;
-};
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_METHOD_NOT_ALLOWED = 405;
+const HTTP_SERVICE_UNAVAILABLE = 503;
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -44,100 +110,25 @@ const modelsData: Model[] = JSON.parse(
 const providersData: Provider[] = JSON.parse(
   readFileSync(join(__dirname, 'providers.json'), 'utf-8')
 );
-
-type Model = {
-  id: string;
-  provider: string;
-  name?: string;
-  release_date?: string;
-  last_updated?: string;
-  attachment?: boolean;
-  reasoning?: boolean;
-  temperature?: boolean;
-  tool_call?: boolean;
-  open_weights?: boolean;
-  knowledge?: string;
-  cost?: {
-    input?: number;
-    output?: number;
-    cache_read?: number;
-    cache_write?: number;
-  };
-  limit?: {
-    context?: number;
-    output?: number;
-  };
-  modalities?: {
-    input?: string[];
-    output?: string[];
-  };
-  [key: string]: unknown;
-};
-
-type Provider = {
-  id: string;
-  name: string;
-  env: string[];
-  npm?: string;
-  api?: string;
-  doc?: string;
-  [key: string]: unknown;
-};
+const searchIndexes: { models: SearchIndex; providers: SearchIndex } =
+  JSON.parse(readFileSync(join(__dirname, 'search-index.json'), 'utf-8'));
+const dataVersion: DataVersion = JSON.parse(
+  readFileSync(join(__dirname, 'data-version.json'), 'utf-8')
+);
+registerSearchIndex(modelsData, MODEL_SEARCH_FIELDS, searchIndexes.models);
+registerSearchIndex(
+  providersData,
+  PROVIDER_SEARCH_FIELDS,
+  searchIndexes.providers
+);
 
 // API Client for internal use
 class ModelsAPI {
-  searchModels(options: {
-    q?: string;
-    provider?: string;
-    tool_call?: boolean;
-    reasoning?: boolean;
-    limit?: number;
-    offset?: number;
-  }): Model[] {
-    let filteredModels = [...modelsData];
-
-    // Text search
-    if (options.q) {
-      const query = options.q.toLowerCase();
-      filteredModels = filteredModels.filter((model: Model) => {
-        const searchableText =
-          `${model.id} ${model.name ?? ''} ${model.provider}`.toLowerCase();
-        return searchableText.includes(query);
-      });
-    }
-
-    // Provider filter
-    if (options.provider) {
-      filteredModels = filteredModels.filter(
-        (model: Model) => model.provider === options.provider
-      );
-    }
-
-    // Boolean filters
-    if (options.tool_call !== undefined) {
-      filteredModels = filteredModels.filter(
-        (model: Model) => model.tool_call === options.tool_call
-      );
-    }
-    if (options.reasoning !== undefined) {
-      filteredModels = filteredModels.filter(
-        (model: Model) => model.reasoning === options.reasoning
-      );
-    }
-
-    // Apply pagination
-    const offset = options.offset || 0;
-    const limit = options.limit || DEFAULT_MODELS_LIMIT;
-
-    if (offset > 0) {
-      filteredModels = filteredModels.slice(offset);
-    }
-
-    if (limit > 0) {
-      filteredModels = filteredModels.slice(0, limit);
-    }
-
-    return filteredModels;
+  searchModels(query: ModelQuery): QueryResult<Partial<Model>> {
+    return queryModels(modelsData, {
+      ...query,
+      limit: query.limit || DEFAULT_MODELS_LIMIT,
+    });
   }
 
   getModel(id: string): Model | null {
@@ -145,84 +136,101 @@ class ModelsAPI {
     return model || null;
   }
 
-  searchProviders(options: {
-    q?: string;
-    env?: string;
-    limit?: number;
-    offset?: number;
-  }): Provider[] {
-    let filteredProviders = [...providersData];
-
-    // Text search
-    if (options.q) {
-      const query = options.q.toLowerCase();
-      filteredProviders = filteredProviders.filter(
-        (p: Provider) =>
-          p.name.toLowerCase().includes(query) ||
-          p.id.toLowerCase().includes(query)
-      );
-    }
-
-    // Environment filter
-    if (options.env) {
-      filteredProviders = filteredProviders.filter((p: Provider) =>
-        p.env.some((e) =>
-          e.toLowerCase().includes(options.env?.toLowerCase() ?? '')
-        )
-      );
-    }
-
-    // Apply pagination
-    const offset = options.offset || 0;
-    const limit = options.limit || DEFAULT_PROVIDERS_LIMIT;
-
-    if (offset > 0) {
-      filteredProviders = filteredProviders.slice(offset);
-    }
-
-    if (limit > 0) {
-      filteredProviders = filteredProviders.slice(0, limit);
-    }
-
-    return filteredProviders;
+  searchProviders(query: ProviderQuery): QueryResult<Provider> {
+    return queryProviders(providersData, {
+      ...query,
+      limit: query.limit || DEFAULT_PROVIDERS_LIMIT,
+    });
   }
 
   getProviders(): Provider[] {
     return [...providersData];
   }
+
+  compareModels(ids: string[]): ModelComparison {
+    const models: Model[] = [];
+    const missing: string[] = [];
+    for (const id of ids) {
+      const model = this.getModel(id);
+      if (model) {
+        models.push(model);
+      } else {
+        missing.push(id);
+      }
+    }
+    if (missing.length) {
+      throw new Error(`AI models not found: ${missing.join(', ')}`);
+    }
+    return compareModels(models);
+  }
 }
 
 // Tool definitions
+
+// Results come back as structuredContent matching these schemas, with a
+// text rendering sized by `format` and `max_tokens` for the search tools
+const MODEL_OUTPUT_SCHEMA = componentSchema('Model');
+const PROVIDER_OUTPUT_SCHEMA = componentSchema('Provider');
+
+// Every /v1/models parameter except those shaping the HTTP response
+const SEARCH_MODELS_PARAMS = ROUTES.models.params.filter(
+  (spec) => !['envelope', 'format'].includes(spec.name)
+);
+
+// How the search tools render results as text
+const OUTPUT_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: OUTPUT_FORMATS,
+    default: 'compact_table',
+    description:
+      'Text rendering: compact_table (pipe-separated, fewest tokens), markdown (table) or json',
+  },
+  max_tokens: {
+    type: 'integer',
+    minimum: MIN_MAX_TOKENS,
+    default: DEFAULT_MAX_TOKENS,
+    description:
+      'Approximate token budget for the text; results beyond it are summarized and can be fetched with the returned cursor',
+  },
+};
+
+const NEXT_CURSOR_SCHEMA = {
+  type: ['string', 'null'],
+  description: 'Pass as `cursor` for the results after these',
+};
+
 const SEARCH_MODELS_TOOL: Tool = {
   name: 'search_models',
-  description: 'Search for AI models by name, provider, or capabilities',
+  description:
+    'Search for AI models by name, provider, capabilities, price, limits, modalities or dates, sorted and paged. For example, the cheapest image-input model with a 1M context: modalities ["image"], min_context 1000000, sort "cost_input", limit 1',
   inputSchema: {
     type: 'object',
     properties: {
-      q: {
-        type: 'string',
-        description: 'Search query (model name, provider, etc.)',
-      },
-      provider: {
-        type: 'string',
-        description: 'Filter by provider (e.g., openai, anthropic)',
-      },
-      tool_call: {
-        type: 'boolean',
-        description: 'Filter by tool calling support',
-      },
-      reasoning: {
-        type: 'boolean',
-        description: 'Filter by reasoning capabilities',
-      },
+      ...argumentsSchema(SEARCH_MODELS_PARAMS),
       limit: {
-        type: 'number',
-        default: 50,
+        type: 'integer',
+        minimum: 0,
+        default: DEFAULT_MODELS_LIMIT,
         description: 'Maximum number of results',
       },
+      ...OUTPUT_PROPERTIES,
     },
     required: [],
   },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer', description: 'Matches before paging' },
+      // Narrowed by `fields`, so nothing is required
+      models: {
+        type: 'array',
+        items: { ...MODEL_OUTPUT_SCHEMA, required: [] },
+      },
+      next_cursor: NEXT_CURSOR_SCHEMA,
+    },
+    required: ['total', 'models', 'next_cursor'],
+  },
 };
 
 const GET_MODEL_TOOL: Tool = {
@@ -238,6 +246,11 @@ const GET_MODEL_TOOL: Tool = {
     },
     required: ['id'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: { model: MODEL_OUTPUT_SCHEMA },
+    required: ['model'],
+  },
 };
 
 const SEARCH_PROVIDERS_TOOL: Tool = {
@@ -259,9 +272,24 @@ const SEARCH_PROVIDERS_TOOL: Tool = {
         default: 20,
         description: 'Maximum number of results',
       },
+      cursor: {
+        type: 'string',
+        description:
+          'Cursor from a previous result, for the providers after it',
+      },
+      ...OUTPUT_PROPERTIES,
     },
     required: [],
   },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer', description: 'Matches before paging' },
+      providers: { type: 'array', items: PROVIDER_OUTPUT_SCHEMA },
+      next_cursor: NEXT_CURSOR_SCHEMA,
+    },
+    required: ['total', 'providers', 'next_cursor'],
+  },
 };
 
 const GET_PROVIDER_TOOL: Tool = {
@@ -277,10 +305,44 @@ const GET_PROVIDER_TOOL: Tool = {
     },
     required: ['id'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: { provider: PROVIDER_OUTPUT_SCHEMA },
+    required: ['provider'],
+  },
+};
+
+const COMPARE_MODELS_TOOL: Tool = {
+  name: 'compare_models',
+  description:
+    'Compare AI models side by side across cost, limits, modalities, capabilities and dates, with the best value per field highlighted',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ids: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 2,
+        maxItems: MAX_COMPARE_MODELS,
+        description:
+          'Model IDs to compare (e.g., ["anthropic:claude-sonnet-4-5", "openai:gpt-4o"])',
+      },
+    },
+    required: ['ids'],
+  },
+  outputSchema: { type: 'object', ...componentSchema('Comparison') },
 };
 
-// Create MCP Server instance (unused - keeping for reference)
-function _createMCPServer() {
+export const MCP_CAPABILITIES = {
+  tools: {},
+  resources: {},
+  prompts: {},
+  completions: {},
+};
+
+// One server per session; version negotiation, ping and the initialized
+// notification are handled by the SDK
+function createMCPServer() {
   const api = new ModelsAPI();
 
   const server = new Server(
@@ -288,27 +350,9 @@ function _createMCPServer() {
       name: 'modelsplus',
       version: '0.0.1',
     },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
+    { capabilities: MCP_CAPABILITIES }
   );
 
-  // Initialize handler - required for MCP protocol
-  server.setRequestHandler(InitializeRequestSchema, (_request) => {
-    return {
-      protocolVersion: '2024-11-05',
-      capabilities: {
-        tools: {},
-      },
-      serverInfo: {
-        name: 'modelsplus',
-        version: '0.0.1',
-      },
-    } as InitializeResult;
-  });
-
   // List tools handler
   server.setRequestHandler(ListToolsRequestSchema, () => {
     return {
@@ -317,34 +361,46 @@ function _createMCPServer() {
         GET_MODEL_TOOL,
         SEARCH_PROVIDERS_TOOL,
         GET_PROVIDER_TOOL,
+        COMPARE_MODELS_TOOL,
       ],
     };
   });
 
   // Tool execution helpers to reduce handler complexity
+  // Results cut short by the token budget continue after the last one
+  // shown, so results narrowed by `fields` carry its key fields until then
   async function execSearchModels(args: unknown) {
-    if (!isSearchModelsArgs(args)) {
-      throw new Error('Invalid arguments for search_models');
-    }
-    const { q, provider, tool_call, reasoning, limit = 50 } = args;
-    const models = await api.searchModels({
-      q,
-      provider,
-      tool_call,
-      reasoning,
-      limit,
+    const { format, maxTokens } = parseOutputArgs('search_models', args);
+    const query = parseSearchModelsArgs(args);
+    const { fields } = query;
+    const { total, items, next_cursor } = await api.searchModels({
+      ...query,
+      fields: fields && [...new Set([...fields, ...modelKeyFields(query)])],
+    });
+    const models = fields
+      ? items.map((model) => selectFields(model, fields))
+      : items;
+    const { text, shown } = renderModelResults(models, {
+      total,
+      format,
+      maxTokens,
     });
+    const cursor =
+      shown < items.length
+        ? modelCursorAfter(items[shown - 1], query)
+        : next_cursor;
     return {
       content: [
         {
           type: 'text',
-          text: `Found ${models.length} AI models matching your criteria:\n\n${JSON.stringify(
-            models,
-            null,
-            2
-          )}`,
+          text: text + continuationNote('search_models', cursor),
         },
       ],
+      structuredContent: {
+        total,
+        models: models.slice(0, shown),
+        next_cursor: cursor,
+      },
     };
   }
 
@@ -361,9 +417,10 @@ function _createMCPServer() {
       content: [
         {
           type: 'text',
-          text: `AI model details for ${model.id}:\n\n${JSON.stringify(model, null, 2)}`,
+          text: summarizeModel(model),
         },
       ],
+      structuredContent: { model },
     };
   }
 
@@ -371,19 +428,31 @@ function _createMCPServer() {
     if (!isSearchProvidersArgs(args)) {
       throw new Error('Invalid arguments for search_providers');
     }
-    const { q, env, limit = 20 } = args;
-    const providers = await api.searchProviders({ q, env, limit });
+    const { format, maxTokens } = parseOutputArgs('search_providers', args);
+    const { q, env, limit = 20, cursor } = args;
+    const query = { q, env, limit, cursor };
+    const { total, items, next_cursor } = await api.searchProviders(query);
+    const { text, shown } = renderProviderResults(items, {
+      total,
+      format,
+      maxTokens,
+    });
+    const next =
+      shown < items.length
+        ? providerCursorAfter(items[shown - 1], query)
+        : next_cursor;
     return {
       content: [
         {
           type: 'text',
-          text: `Found ${providers.length} AI model providers matching your criteria:\n\n${JSON.stringify(
-            providers,
-            null,
-            2
-          )}`,
+          text: text + continuationNote('search_providers', next),
         },
       ],
+      structuredContent: {
+        total,
+        providers: items.slice(0, shown),
+        next_cursor: next,
+      },
     };
   }
 
@@ -401,9 +470,26 @@ function _createMCPServer() {
       content: [
         {
           type: 'text',
-          text: `AI model provider details for ${provider.id}:\n\n${JSON.stringify(provider, null, 2)}`,
+          text: summarizeProvider(provider),
+        },
+      ],
+      structuredContent: { provider },
+    };
+  }
+
+  async function execCompareModels(args: unknown) {
+    if (!isCompareModelsArgs(args)) {
+      throw new Error('Invalid arguments for compare_models');
+    }
+    const comparison = await api.compareModels(args.ids);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Comparison of ${args.ids.length} AI models:\n\n${summarizeComparison(comparison)}`,
         },
       ],
+      structuredContent: comparison,
     };
   }
 
@@ -417,6 +503,8 @@ function _createMCPServer() {
         return execSearchProviders(args);
       case 'get_provider':
         return execGetProvider(args);
+      case 'compare_models':
+        return execCompareModels(args);
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -440,273 +528,182 @@ function _createMCPServer() {
     }
   });
 
-  return server;
-}
+  // Resource handlers
+  server.setRequestHandler(ListResourcesRequestSchema, (request) =>
+    listResources(request.params?.cursor)
+  );
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    readResource(request.params.uri)
+  );
 
-// Helper functions to reduce complexity
-function createResponseHeaders(): Headers {
-  return new Headers({
-    'Content-Type': 'application/json',
-    'Cache-Control': 'no-cache',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  // Prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: PROMPTS,
+  }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return await getPrompt(
+        request.params.name,
+        request.params.arguments ?? {},
+        PROMPT_CATALOG
+      );
+    } catch (error) {
+      if (error instanceof PromptError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
   });
-}
 
-function createServerCapabilities(): JSONRPCResponse {
-  return {
-    jsonrpc: '2.0',
-    id: 1,
-    result: {
-      protocolVersion: '2024-11-05',
-      capabilities: { tools: {} },
-      serverInfo: { name: 'modelsplus', version: '0.0.1' },
-    },
-  };
-}
+  // Completion of the model and provider ids taken by prompts and resource
+  // templates
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument, context } = request.params;
+    try {
+      return {
+        completion: await completeArgument(
+          ref,
+          argument,
+          context?.arguments ?? {},
+          COMPLETION_CATALOG
+        ),
+      };
+    } catch (error) {
+      if (error instanceof CompletionError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
 
-function createToolsList(): JSONRPCResponse {
-  return {
-    jsonrpc: '2.0',
-    id: null,
-    result: {
-      tools: [
-        {
-          name: 'search_models',
-          description:
-            'Search for AI models by name, provider, or capabilities',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              q: {
-                type: 'string',
-                description: 'Search query (model name, provider, etc.)',
-              },
-              provider: {
-                type: 'string',
-                description: 'Filter by provider (e.g., openai, anthropic)',
-              },
-              tool_call: {
-                type: 'boolean',
-                description: 'Filter by tool calling support',
-              },
-              reasoning: {
-                type: 'boolean',
-                description: 'Filter by reasoning capabilities',
-              },
-              limit: {
-                type: 'number',
-                default: 50,
-                description: 'Maximum number of results',
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: 'get_model',
-          description: 'Get detailed information about a specific AI model',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              id: {
-                type: 'string',
-                description: 'Model ID (e.g., gpt-4, claude-3-sonnet)',
-              },
-            },
-            required: ['id'],
-          },
-        },
-        {
-          name: 'search_providers',
-          description:
-            'Search for AI model providers by name or environment variables',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              q: {
-                type: 'string',
-                description: 'Search query (provider name)',
-              },
-              env: {
-                type: 'string',
-                description: 'Filter by required environment variable',
-              },
-              limit: {
-                type: 'number',
-                default: 20,
-                description: 'Maximum number of results',
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: 'get_provider',
-          description:
-            'Get detailed information about a specific AI model provider',
-          inputSchema: {
-            type: 'object',
-            properties: { id: { type: 'string', description: 'Provider ID' } },
-            required: ['id'],
-          },
-        },
-      ],
-    },
-  };
+  return server;
 }
 
-function handleToolCall(
-  name: string,
-  args: unknown,
-  id: string | number | null
-): Promise<JSONRPCResponse> {
-  const api = new ModelsAPI();
+// Resources: a spec sheet per provider and model, listed in that order
 
-  switch (name) {
-    case 'search_models':
-      return handleSearchModels(args, api, id);
-    case 'get_model':
-      return handleGetModel(args, api, id);
-    case 'search_providers':
-      return handleSearchProviders(args, api, id);
-    case 'get_provider':
-      return handleGetProvider(args, api, id);
-    default:
-      throw new Error(`Unknown tool: ${name}`);
-  }
-}
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: MODEL_URI_TEMPLATE,
+    name: 'model',
+    title: 'AI Model',
+    description: 'Specification of an AI model, by provider and model ID',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: PROVIDER_URI_TEMPLATE,
+    name: 'provider',
+    title: 'AI Model Provider',
+    description: 'Details of an AI model provider',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
 
-async function handleSearchModels(
-  args: unknown,
-  api: ModelsAPI,
-  id: string | number | null
-): Promise<JSONRPCResponse> {
-  if (!isSearchModelsArgs(args)) {
-    throw new Error('Invalid arguments for search_models');
-  }
+const DIGITS = /^\d+$/;
 
-  const { q, provider, tool_call, reasoning, limit = 50 } = args;
-  const models = await api.searchModels({
-    q,
-    provider,
-    tool_call,
-    reasoning,
-    limit,
-  });
+const CATALOG_RESOURCES: CatalogResource[] = [
+  ...providersData.map(providerResource),
+  ...modelsData.map(modelResource),
+];
 
+// Pages by offset, with the offset of the next page as the cursor
+function listResources(cursor = '0') {
+  if (!DIGITS.test(cursor)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  const offset = Number(cursor);
+  const end = offset + RESOURCES_PAGE_SIZE;
   return {
-    jsonrpc: '2.0',
-    id,
-    result: {
-      content: [
-        {
-          type: 'text',
-          text: `Found ${models.length} AI models:\n\n${JSON.stringify(models, null, 2)}`,
-        },
-      ],
-    },
+    resources: CATALOG_RESOURCES.slice(offset, end),
+    ...(end < CATALOG_RESOURCES.length && { nextCursor: String(end) }),
   };
 }
 
-async function handleGetModel(
-  args: unknown,
-  api: ModelsAPI,
-  id: string | number | null
-): Promise<JSONRPCResponse> {
-  if (!isGetModelArgs(args)) {
-    throw new Error('Invalid arguments for get_model');
+function findResource(uri: string): Model | Provider | undefined {
+  const ref = parseResourceUri(uri);
+  if (ref?.type === 'model') {
+    return modelsData.find((m) => matchesModelRef(m, ref));
   }
-
-  const { id: modelId } = args;
-  const model = await api.getModel(modelId);
-
-  if (!model) {
-    throw new Error(`AI model with ID '${modelId}' not found`);
+  if (ref?.type === 'provider') {
+    return providersData.find((p) => p.id === ref.id);
   }
-
-  return {
-    jsonrpc: '2.0',
-    id,
-    result: {
-      content: [
-        {
-          type: 'text',
-          text: `AI model details for ${model.id}:\n\n${JSON.stringify(model, null, 2)}`,
-        },
-      ],
-    },
-  };
+  return;
 }
 
-async function handleSearchProviders(
-  args: unknown,
-  api: ModelsAPI,
-  id: string | number | null
-): Promise<JSONRPCResponse> {
-  if (!isSearchProvidersArgs(args)) {
-    throw new Error('Invalid arguments for search_providers');
+function readResource(uri: string) {
+  const resource = findResource(uri);
+  if (!resource) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
   }
-
-  const { q, env, limit = 20 } = args;
-  const providers = await api.searchProviders({ q, env, limit });
-
   return {
-    jsonrpc: '2.0',
-    id,
-    result: {
-      content: [
-        {
-          type: 'text',
-          text: `Found ${providers.length} AI model providers:\n\n${JSON.stringify(providers, null, 2)}`,
-        },
-      ],
-    },
+    contents: [
+      {
+        uri,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: JSON.stringify(resource, null, 2),
+      },
+    ],
   };
 }
 
-async function handleGetProvider(
-  args: unknown,
-  api: ModelsAPI,
-  id: string | number | null
-): Promise<JSONRPCResponse> {
-  if (!isGetProviderArgs(args)) {
-    throw new Error('Invalid arguments for get_provider');
-  }
+// Prompts: guided model-selection workflows over the bundled catalog
+
+const PROMPT_CATALOG: PromptCatalog = {
+  models: (query) => Promise.resolve(queryModels(modelsData, query).items),
+  model: (id) => Promise.resolve(modelsData.find((m) => m.id === id) ?? null),
+};
 
-  const { id: providerId } = args;
-  const providers = await api.getProviders();
-  const provider = providers.find((p: Provider) => p.id === providerId);
+const COMPLETION_CATALOG: CompletionCatalog = {
+  version: () => Promise.resolve(dataVersion.hash),
+  models: () => Promise.resolve(modelsData),
+  providers: () => Promise.resolve(providersData),
+};
 
-  if (!provider) {
-    throw new Error(`AI model provider with ID '${providerId}' not found`);
+// Arguments are checked against the /v1/models parameter specs, so they
+// fail the same way a bad query string would
+function parseSearchModelsArgs(args: unknown): ModelQuery {
+  if (typeof args !== 'object' || args === null) {
+    throw new Error('Invalid arguments for search_models');
   }
+  const {
+    format: _format,
+    max_tokens: _maxTokens,
+    ...params
+  } = args as Record<string, unknown>;
+  const { values, issues } = checkArguments(SEARCH_MODELS_PARAMS, params);
+  if (issues.length) {
+    throw new Error(
+      `Invalid arguments for search_models: ${formatIssues(issues)}`
+    );
+  }
+  return parseModelQuery(values);
+}
 
-  return {
-    jsonrpc: '2.0',
-    id,
-    result: {
-      content: [
-        {
-          type: 'text',
-          text: `AI model provider details for ${provider.id}:\n\n${JSON.stringify(provider, null, 2)}`,
-        },
-      ],
-    },
-  };
+// `format` and `max_tokens`, shared by the search tools
+function parseOutputArgs(
+  tool: string,
+  args: unknown
+): { format: OutputFormat; maxTokens: number } {
+  const {
+    format = 'compact_table',
+    max_tokens: maxTokens = DEFAULT_MAX_TOKENS,
+  } = (args ?? {}) as { format?: unknown; max_tokens?: unknown };
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(
+      `Invalid arguments for ${tool}: format must be one of ${OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+  if (!Number.isInteger(maxTokens) || (maxTokens as number) < MIN_MAX_TOKENS) {
+    throw new Error(
+      `Invalid arguments for ${tool}: max_tokens must be an integer of at least ${MIN_MAX_TOKENS}`
+    );
+  }
+  return { format: format as OutputFormat, maxTokens: maxTokens as number };
 }
 
 // Type guards
-function isSearchModelsArgs(args: unknown): args is {
-  q?: string;
-  provider?: string;
-  tool_call?: boolean;
-  reasoning?: boolean;
-  limit?: number;
-} {
-  return typeof args === 'object' && args !== null;
-}
 
 function isGetModelArgs(args: unknown): args is { id: string } {
   return (
@@ -719,7 +716,7 @@ function isGetModelArgs(args: unknown): args is { id: string } {
 
 function isSearchProvidersArgs(
   args: unknown
-): args is { q?: string; env?: string; limit?: number } {
+): args is { q?: string; env?: string; limit?: number; cursor?: string } {
   return typeof args === 'object' && args !== null;
 }
 
@@ -732,111 +729,151 @@ function isGetProviderArgs(args: unknown): args is { id: string } {
   );
 }
 
-// MCP HTTP Transport Handler
-export async function handleMCPStream(request: Request): Promise<Response> {
-  if (!['GET', 'POST'].includes(request.method)) {
-    return new Response('Method not allowed', { status: 405 });
+function isCompareModelsArgs(args: unknown): args is { ids: string[] } {
+  if (typeof args !== 'object' || args === null || !('ids' in args)) {
+    return false;
   }
+  const { ids } = args as { ids: unknown };
+  return (
+    Array.isArray(ids) &&
+    ids.length >= 2 &&
+    ids.length <= MAX_COMPARE_MODELS &&
+    ids.every((value) => typeof value === 'string')
+  );
+}
 
-  const headers = createResponseHeaders();
+// Streamable HTTP sessions, each with its own server. Sessions live in
+// memory, so a client whose session was dropped (idle, or served by another
+// instance) gets a 404 and initializes a new one, as the spec prescribes.
+// The stateless endpoint below has no such state and works across instances.
 
-  try {
-    if (request.method === 'GET') {
-      return new Response(JSON.stringify(createServerCapabilities()), {
-        headers,
-      });
-    }
+// 30 minutes
+const SESSION_IDLE_MS = 1_800_000;
+// Live sessions per instance; new ones are refused beyond this
+const MAX_SESSIONS = 1000;
 
-    const body = (await request.json()) as JSONRPCRequest;
-    let response: JSONRPCResponse;
-
-    if (body.method === 'initialize') {
-      response = createServerCapabilities();
-      response.id = body.id;
-    } else if (body.method === 'tools/list') {
-      response = createToolsList();
-      response.id = body.id;
-    } else if (body.method === 'tools/call') {
-      const { name, arguments: args } = body.params as ToolCallParams;
-      response = await handleToolCall(name, args, body.id);
-    } else {
-      response = {
-        jsonrpc: '2.0',
-        id: body.id || 1,
-        error: {
-          code: ErrorCode.MethodNotFound,
-          message: `Method not found: ${body.method}`,
-        },
-      };
-    }
+type Session = {
+  transport: StreamableHTTPTransport;
+  lastSeen: number;
+};
 
-    return new Response(JSON.stringify(response), { headers });
-  } catch (error) {
-    const errorResponse = {
-      jsonrpc: '2.0',
-      id: 1,
-      error: {
-        code: ErrorCode.ParseError,
-        message: 'Parse error',
-        data: error instanceof Error ? error.message : String(error),
-      },
-    };
+const sessions = new Map<string, Session>();
 
-    return new Response(JSON.stringify(errorResponse), {
-      status: 400,
-      headers,
-    });
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Content-Type, Authorization, Mcp-Session-Id, MCP-Protocol-Version',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id',
+};
+
+function withCORS(response: Response): Response {
+  for (const [name, value] of Object.entries(CORS_HEADERS)) {
+    response.headers.set(name, value);
   }
+  return response;
 }
 
-// Alternative MCP handler for POST requests
-export async function handleMCPRequest(request: Request): Promise<Response> {
-  if (request.method !== 'POST') {
-    return new Response('Method not allowed', { status: 405 });
+function closeIdleSessions(now: number): void {
+  for (const [id, session] of sessions) {
+    if (now - session.lastSeen > SESSION_IDLE_MS) {
+      sessions.delete(id);
+      session.transport.close();
+    }
   }
+}
 
-  const headers = createResponseHeaders();
+function isInitialization(body: unknown): boolean {
+  return Array.isArray(body)
+    ? body.some(isInitializeRequest)
+    : isInitializeRequest(body);
+}
 
+// A new session starts with an initialize request and no session id
+async function startSession(request: Request): Promise<Response> {
+  let body: unknown;
   try {
-    const body = (await request.json()) as JSONRPCRequest;
-    let response: JSONRPCResponse;
-
-    if (body.method === 'initialize') {
-      response = createServerCapabilities();
-      response.id = body.id;
-    } else if (body.method === 'tools/list') {
-      response = createToolsList();
-      response.id = body.id;
-    } else if (body.method === 'tools/call') {
-      const { name, arguments: args } = body.params as ToolCallParams;
-      response = await handleToolCall(name, args, body.id);
-    } else {
-      response = {
-        jsonrpc: '2.0',
-        id: body.id || 1,
-        error: {
-          code: ErrorCode.MethodNotFound,
-          message: `Method not found: ${body.method}`,
-        },
-      };
-    }
-
-    return new Response(JSON.stringify(response), { headers });
+    body = request.method === 'POST' ? await request.json() : undefined;
   } catch (error) {
-    const errorResponse = {
-      jsonrpc: '2.0',
-      id: 1,
-      error: {
-        code: -32_700,
-        message: 'Parse error',
-        data: error instanceof Error ? error.message : String(error),
-      },
-    };
+    return jsonRPCErrorResponse(
+      HTTP_BAD_REQUEST,
+      ErrorCode.ParseError,
+      'Parse error',
+      String(error)
+    );
+  }
+  if (!isInitialization(body)) {
+    return jsonRPCErrorResponse(
+      HTTP_BAD_REQUEST,
+      SERVER_ERROR,
+      'Bad Request: No valid session ID provided'
+    );
+  }
+  if (sessions.size >= MAX_SESSIONS) {
+    return jsonRPCErrorResponse(
+      HTTP_SERVICE_UNAVAILABLE,
+      SERVER_ERROR,
+      'Too many sessions; use the stateless /mcp endpoint instead'
+    );
+  }
+  const transport = new StreamableHTTPTransport({
+    sessionIdGenerator: () => crypto.randomUUID(),
+    onsessionclosed: (id) => sessions.delete(id),
+  });
+  await createMCPServer().connect(transport);
+  const response = await transport.handleRequest(request, body);
+  if (transport.sessionId) {
+    sessions.set(transport.sessionId, { transport, lastSeen: Date.now() });
+  }
+  return response;
+}
 
-    return new Response(JSON.stringify(errorResponse), {
-      status: 400,
-      headers,
-    });
+// MCP Streamable HTTP endpoint with sessions, at /mcp/session. Responses to
+// POSTs are streamed as SSE.
+export async function handleMCPRequest(request: Request): Promise<Response> {
+  const now = Date.now();
+  closeIdleSessions(now);
+  const sessionId = request.headers.get('Mcp-Session-Id');
+  if (!sessionId) {
+    return withCORS(await startSession(request));
+  }
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return withCORS(
+      jsonRPCErrorResponse(
+        HTTP_NOT_FOUND,
+        SESSION_NOT_FOUND,
+        'Session not found'
+      )
+    );
+  }
+  session.lastSeen = now;
+  return withCORS(await session.transport.handleRequest(request));
+}
+
+// Stateless MCP Streamable HTTP endpoint: every POST is answered with a
+// single JSON body by a server of its own, so no request depends on the
+// instance that served the previous one. Without sessions there is nothing
+// for GET to stream or for DELETE to end.
+export async function handleStatelessMCPRequest(
+  request: Request
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    const response = jsonRPCErrorResponse(
+      HTTP_METHOD_NOT_ALLOWED,
+      SERVER_ERROR,
+      'Method not allowed.'
+    );
+    response.headers.set('Allow', 'POST');
+    return withCORS(response);
+  }
+  const transport = new StreamableHTTPTransport({ jsonResponse: true });
+  const server = createMCPServer();
+  await server.connect(transport);
+  try {
+    return withCORS(await transport.handleRequest(request));
+  } finally {
+    await server.close();
   }
 }
 
@@ -844,11 +881,6 @@ export async function handleMCPRequest(request: Request): Promise<Response> {
 export function handleMCPOptions(): Response {
   return new Response(null, {
     status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      'Access-Control-Max-Age': '86400',
-    },
+    headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
   });
 }
@@ -0,0 +1,418 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  DEFAULT_NEGOTIATED_PROTOCOL_VERSION,
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  JSONRPCMessageSchema,
+  type RequestId,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '@modelcontextprotocol/sdk/types.js';
+
+// MCP Streamable HTTP transport on the Fetch API, for runtimes without
+// node:http such as Cloudflare Workers. Mirrors the SDK's node transport:
+// one instance per session, POST carries client messages (single or
+// batched) and streams the responses back as SSE, or as one JSON body with
+// `jsonResponse`; GET opens a stream for server-initiated messages and
+// DELETE ends the session. Without a `sessionIdGenerator` the transport is
+// stateless: no session ids are issued or checked, so an instance can serve
+// a single request.
+
+const HTTP_OK = 200;
+const HTTP_ACCEPTED = 202;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_METHOD_NOT_ALLOWED = 405;
+const HTTP_NOT_ACCEPTABLE = 406;
+const HTTP_CONFLICT = 409;
+const HTTP_UNSUPPORTED_MEDIA_TYPE = 415;
+
+// JSON-RPC error codes used for transport-level failures
+export const SERVER_ERROR = -32_000;
+export const SESSION_NOT_FOUND = -32_001;
+const INVALID_REQUEST = -32_600;
+const PARSE_ERROR = -32_700;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+export type StreamableHTTPTransportOptions = {
+  // Undefined for the stateless mode
+  sessionIdGenerator?: () => string;
+  // Answer POSTs with a JSON body instead of an SSE stream
+  jsonResponse?: boolean;
+  onsessionclosed?: (sessionId: string) => void;
+};
+
+// The requests of one POST and the responses gathered for them so far
+type PendingStream = {
+  requestIds: RequestId[];
+  responses: Map<RequestId, JSONRPCMessage>;
+  // SSE: events are written as they come
+  controller?: ReadableStreamDefaultController<Uint8Array>;
+  // JSON: resolved once every request has its response
+  resolve?: (messages: JSONRPCMessage[]) => void;
+};
+
+const encoder = new TextEncoder();
+
+export function jsonRPCErrorResponse(
+  status: number,
+  code: number,
+  message: string,
+  data?: unknown
+): Response {
+  return Response.json(
+    { jsonrpc: '2.0', error: { code, message, data }, id: null },
+    { status }
+  );
+}
+
+function acceptsAll(request: Request, types: string[]): boolean {
+  const accept = request.headers.get('Accept') ?? '';
+  return types.every((type) => accept.includes(type));
+}
+
+function writeEvent(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  message: JSONRPCMessage
+): void {
+  controller.enqueue(
+    encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`)
+  );
+}
+
+export class StreamableHTTPTransport implements Transport {
+  sessionId?: string;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private readonly options: StreamableHTTPTransportOptions;
+  private started = false;
+  private initialized = false;
+  private readonly streams = new Map<string, PendingStream>();
+  private readonly requestStreams = new Map<RequestId, string>();
+  // Stream for messages not tied to a request, opened by GET
+  private standalone?: ReadableStreamDefaultController<Uint8Array>;
+
+  constructor(options: StreamableHTTPTransportOptions) {
+    this.options = options;
+  }
+
+  start(): Promise<void> {
+    if (this.started) {
+      return Promise.reject(new Error('Transport already started'));
+    }
+    this.started = true;
+    return Promise.resolve();
+  }
+
+  // `body` is the already parsed POST body, when the caller had to read it
+  handleRequest(request: Request, body?: unknown): Promise<Response> {
+    switch (request.method) {
+      case 'POST':
+        return this.handlePost(request, body);
+      case 'GET':
+        return Promise.resolve(this.handleGet(request));
+      case 'DELETE':
+        return this.handleDelete(request);
+      default: {
+        const response = jsonRPCErrorResponse(
+          HTTP_METHOD_NOT_ALLOWED,
+          SERVER_ERROR,
+          'Method not allowed.'
+        );
+        response.headers.set('Allow', 'GET, POST, DELETE');
+        return Promise.resolve(response);
+      }
+    }
+  }
+
+  private handleGet(request: Request): Response {
+    if (!acceptsAll(request, ['text/event-stream'])) {
+      return jsonRPCErrorResponse(
+        HTTP_NOT_ACCEPTABLE,
+        SERVER_ERROR,
+        'Not Acceptable: Client must accept text/event-stream'
+      );
+    }
+    const invalid = this.validateSession(request);
+    if (invalid) {
+      return invalid;
+    }
+    if (this.standalone) {
+      return jsonRPCErrorResponse(
+        HTTP_CONFLICT,
+        SERVER_ERROR,
+        'Conflict: Only one SSE stream is allowed per session'
+      );
+    }
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.standalone = controller;
+      },
+      cancel: () => {
+        this.standalone = undefined;
+      },
+    });
+    return new Response(stream, {
+      status: HTTP_OK,
+      headers: this.withSession(SSE_HEADERS),
+    });
+  }
+
+  private async handlePost(
+    request: Request,
+    body?: unknown
+  ): Promise<Response> {
+    if (!acceptsAll(request, ['application/json', 'text/event-stream'])) {
+      return jsonRPCErrorResponse(
+        HTTP_NOT_ACCEPTABLE,
+        SERVER_ERROR,
+        'Not Acceptable: Client must accept both application/json and text/event-stream'
+      );
+    }
+    if (!request.headers.get('Content-Type')?.includes('application/json')) {
+      return jsonRPCErrorResponse(
+        HTTP_UNSUPPORTED_MEDIA_TYPE,
+        SERVER_ERROR,
+        'Unsupported Media Type: Content-Type must be application/json'
+      );
+    }
+
+    let messages: JSONRPCMessage[];
+    try {
+      const raw = body === undefined ? await request.json() : body;
+      messages = (Array.isArray(raw) ? raw : [raw]).map((message) =>
+        JSONRPCMessageSchema.parse(message)
+      );
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return jsonRPCErrorResponse(
+        HTTP_BAD_REQUEST,
+        PARSE_ERROR,
+        'Parse error',
+        String(error)
+      );
+    }
+
+    const invalid = messages.some(isInitializeRequest)
+      ? this.initialize(messages)
+      : this.validateSession(request);
+    if (invalid) {
+      return invalid;
+    }
+
+    const requestIds = messages.filter(isJSONRPCRequest).map((m) => m.id);
+    if (!requestIds.length) {
+      // Notifications and responses only
+      this.dispatch(messages);
+      return new Response(null, { status: HTTP_ACCEPTED });
+    }
+    return this.options.jsonResponse
+      ? this.respondWithJSON(messages, requestIds)
+      : this.respondWithStream(messages, requestIds);
+  }
+
+  private initialize(messages: JSONRPCMessage[]): Response | undefined {
+    if (this.initialized) {
+      return jsonRPCErrorResponse(
+        HTTP_BAD_REQUEST,
+        INVALID_REQUEST,
+        'Invalid Request: Server already initialized'
+      );
+    }
+    if (messages.length > 1) {
+      return jsonRPCErrorResponse(
+        HTTP_BAD_REQUEST,
+        INVALID_REQUEST,
+        'Invalid Request: Only one initialization request is allowed'
+      );
+    }
+    this.sessionId = this.options.sessionIdGenerator?.();
+    this.initialized = true;
+    return;
+  }
+
+  private respondWithStream(
+    messages: JSONRPCMessage[],
+    requestIds: RequestId[]
+  ): Response {
+    const id = crypto.randomUUID();
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.track(id, { requestIds, responses: new Map(), controller });
+      },
+      cancel: () => {
+        this.untrack(id);
+      },
+    });
+    this.dispatch(messages);
+    return new Response(stream, {
+      status: HTTP_OK,
+      headers: this.withSession(SSE_HEADERS),
+    });
+  }
+
+  private async respondWithJSON(
+    messages: JSONRPCMessage[],
+    requestIds: RequestId[]
+  ): Promise<Response> {
+    const responses = new Promise<JSONRPCMessage[]>((resolve) => {
+      this.track(crypto.randomUUID(), {
+        requestIds,
+        responses: new Map(),
+        resolve,
+      });
+    });
+    this.dispatch(messages);
+    const result = await responses;
+    return Response.json(result.length === 1 ? result[0] : result, {
+      status: HTTP_OK,
+      headers: this.withSession({}),
+    });
+  }
+
+  private async handleDelete(request: Request): Promise<Response> {
+    const invalid = this.validateSession(request);
+    if (invalid) {
+      return invalid;
+    }
+    if (this.sessionId) {
+      this.options.onsessionclosed?.(this.sessionId);
+    }
+    await this.close();
+    return new Response(null, { status: HTTP_OK });
+  }
+
+  private validateSession(request: Request): Response | undefined {
+    if (!this.options.sessionIdGenerator) {
+      return this.validateProtocolVersion(request);
+    }
+    if (!this.initialized) {
+      return jsonRPCErrorResponse(
+        HTTP_BAD_REQUEST,
+        SERVER_ERROR,
+        'Bad Request: Server not initialized'
+      );
+    }
+    const sessionId = request.headers.get('Mcp-Session-Id');
+    if (!sessionId) {
+      return jsonRPCErrorResponse(
+        HTTP_BAD_REQUEST,
+        SERVER_ERROR,
+        'Bad Request: Mcp-Session-Id header is required'
+      );
+    }
+    if (sessionId !== this.sessionId) {
+      return jsonRPCErrorResponse(
+        HTTP_NOT_FOUND,
+        SESSION_NOT_FOUND,
+        'Session not found'
+      );
+    }
+    return this.validateProtocolVersion(request);
+  }
+
+  private validateProtocolVersion(request: Request): Response | undefined {
+    // Clients send the negotiated version on every request after
+    // initialization; without it the spec says to assume 2025-03-26
+    const version =
+      request.headers.get('MCP-Protocol-Version') ??
+      DEFAULT_NEGOTIATED_PROTOCOL_VERSION;
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+      return jsonRPCErrorResponse(
+        HTTP_BAD_REQUEST,
+        SERVER_ERROR,
+        `Bad Request: Unsupported protocol version (supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+      );
+    }
+    return;
+  }
+
+  private withSession(headers: Record<string, string>): Headers {
+    const result = new Headers(headers);
+    if (this.sessionId) {
+      result.set('Mcp-Session-Id', this.sessionId);
+    }
+    return result;
+  }
+
+  private track(id: string, stream: PendingStream): void {
+    this.streams.set(id, stream);
+    for (const requestId of stream.requestIds) {
+      this.requestStreams.set(requestId, id);
+    }
+  }
+
+  private untrack(id: string): void {
+    const stream = this.streams.get(id);
+    for (const requestId of stream?.requestIds ?? []) {
+      this.requestStreams.delete(requestId);
+    }
+    this.streams.delete(id);
+  }
+
+  private dispatch(messages: JSONRPCMessage[]): void {
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  send(
+    message: JSONRPCMessage,
+    options?: { relatedRequestId?: RequestId }
+  ): Promise<void> {
+    const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message);
+    const requestId = isResponse ? message.id : options?.relatedRequestId;
+    if (requestId === undefined) {
+      // Dropped when no GET stream is open, as the spec allows
+      if (this.standalone) {
+        writeEvent(this.standalone, message);
+      }
+      return Promise.resolve();
+    }
+
+    const id = this.requestStreams.get(requestId);
+    const stream = id === undefined ? undefined : this.streams.get(id);
+    if (!(id && stream)) {
+      // The client went away before the response was ready
+      return Promise.resolve();
+    }
+    if (stream.controller) {
+      writeEvent(stream.controller, message);
+    }
+    if (isResponse) {
+      stream.responses.set(requestId, message);
+      if (stream.requestIds.every((r) => stream.responses.has(r))) {
+        stream.controller?.close();
+        stream.resolve?.(
+          stream.requestIds.map(
+            (r) => stream.responses.get(r) as JSONRPCMessage
+          )
+        );
+        this.untrack(id);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    for (const stream of this.streams.values()) {
+      stream.controller?.close();
+      stream.resolve?.([...stream.responses.values()]);
+    }
+    this.standalone?.close();
+    this.standalone = undefined;
+    this.streams.clear();
+    this.requestStreams.clear();
+    this.onclose?.();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,1264 @@
+import { USAGE_FIELDS } from '@modelsplus/shared/estimate';
+import { FilterSyntaxError, parseFilter } from '@modelsplus/shared/filter';
+import {
+  MODEL_SORT_FIELDS,
+  type ModelQuery,
+  PROVIDER_SORT_FIELDS,
+  toQueryParams,
+} from '@modelsplus/shared/query';
+import type { MiddlewareHandler } from 'hono';
+import { CONTENT_TYPES, EXPORT_FORMATS } from './formats';
+
+// Route and parameter definitions for the REST API. The same specs drive
+// request validation, the OpenAPI document served at /openapi.json and the
+// arguments of the GraphQL fields and MCP tools that mirror a route.
+
+const SORT_ORDERS = ['asc', 'desc'] as const;
+
+const MODALITIES = ['text', 'audio', 'image', 'video', 'pdf'] as const;
+const API_SHAPES = ['responses', 'completions'] as const;
+
+const CHANGE_TYPES = [
+  'added',
+  'removed',
+  'price_changed',
+  'limit_changed',
+  'deprecated',
+] as const;
+
+type ParamType = 'string' | 'number' | 'integer' | 'boolean' | 'date';
+
+export type ParamSpec = {
+  name: string;
+  in?: 'query' | 'path';
+  type: ParamType;
+  description: string;
+  enum?: readonly string[];
+  // Comma-separated list of values
+  list?: boolean;
+  minimum?: number;
+  default?: string | number | boolean;
+  required?: boolean;
+  example?: string | number | boolean;
+  // Validation beyond the type; returns an error message
+  check?: (value: string) => string | undefined;
+};
+
+type ResponseSpec = {
+  description: string;
+  contentType?: string;
+  schema?: Record<string, unknown>;
+  // Text renderings of the same data, e.g. CSV
+  textContentTypes?: string[];
+};
+
+export type RouteSpec = {
+  method: 'get' | 'post';
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  params?: ParamSpec[];
+  responses: Record<number, ResponseSpec>;
+};
+
+export type ValidationIssue = {
+  parameter: string;
+  message: string;
+  value: string;
+};
+
+function checkFilter(value: string): string | undefined {
+  try {
+    parseFilter(value);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+// Parameter groups shared between routes
+
+const MODEL_FILTER_PARAMS: ParamSpec[] = [
+  {
+    name: 'q',
+    type: 'string',
+    description:
+      'Fuzzy search over model id, name, family and provider, tolerant of typos and missing separators',
+    example: 'sonet 4',
+  },
+  {
+    name: 'provider',
+    type: 'string',
+    description: 'Filter by provider id',
+    example: 'openai',
+  },
+  {
+    name: 'tool_call',
+    type: 'boolean',
+    description: 'Filter by tool calling support',
+  },
+  {
+    name: 'attachment',
+    type: 'boolean',
+    description: 'Filter by attachment support',
+  },
+  {
+    name: 'reasoning',
+    type: 'boolean',
+    description: 'Filter by reasoning capabilities',
+  },
+  {
+    name: 'temperature',
+    type: 'boolean',
+    description: 'Filter by temperature support',
+  },
+  {
+    name: 'open_weights',
+    type: 'boolean',
+    description: 'Filter by open weights availability',
+  },
+  {
+    name: 'structured_output',
+    type: 'boolean',
+    description: 'Filter by structured output support',
+  },
+  {
+    name: 'min_input_cost',
+    type: 'number',
+    minimum: 0,
+    description: 'Minimum input cost (USD per 1M tokens)',
+  },
+  {
+    name: 'max_input_cost',
+    type: 'number',
+    minimum: 0,
+    description: 'Maximum input cost (USD per 1M tokens)',
+  },
+  {
+    name: 'min_output_cost',
+    type: 'number',
+    minimum: 0,
+    description: 'Minimum output cost (USD per 1M tokens)',
+  },
+  {
+    name: 'max_output_cost',
+    type: 'number',
+    minimum: 0,
+    description: 'Maximum output cost (USD per 1M tokens)',
+  },
+  {
+    name: 'min_context',
+    type: 'integer',
+    minimum: 0,
+    description: 'Minimum context window in tokens',
+  },
+  {
+    name: 'max_context',
+    type: 'integer',
+    minimum: 0,
+    description: 'Maximum context window in tokens',
+  },
+  {
+    name: 'min_output_limit',
+    type: 'integer',
+    minimum: 0,
+    description: 'Minimum output limit in tokens',
+  },
+  {
+    name: 'max_output_limit',
+    type: 'integer',
+    minimum: 0,
+    description: 'Maximum output limit in tokens',
+  },
+  {
+    name: 'modalities',
+    type: 'string',
+    list: true,
+    enum: MODALITIES,
+    description: 'Comma-separated modalities the model must accept or produce',
+    example: 'image,text',
+  },
+  {
+    name: 'release_after',
+    type: 'date',
+    description: 'Released on or after this date',
+  },
+  {
+    name: 'release_before',
+    type: 'date',
+    description: 'Released on or before this date',
+  },
+  {
+    name: 'updated_after',
+    type: 'date',
+    description: 'Updated on or after this date',
+  },
+  {
+    name: 'updated_before',
+    type: 'date',
+    description: 'Updated on or before this date',
+  },
+  {
+    name: 'filter',
+    type: 'string',
+    description:
+      'Expression over model fields: comparisons (`=`, `!=`, `<`, `<=`, `>`, `>=`), `has` for lists and text, `and`/`or`/`not` and parentheses. Dates are written as YYYY-MM-DD.',
+    example: 'cost.cache_read < 0.1 or limit.input >= 400000',
+    check: checkFilter,
+  },
+];
+
+const PAGINATION_PARAMS: ParamSpec[] = [
+  {
+    name: 'limit',
+    type: 'integer',
+    minimum: 0,
+    description: 'Maximum number of results (0 or omitted for all)',
+  },
+  {
+    name: 'offset',
+    type: 'integer',
+    minimum: 0,
+    description: 'Number of results to skip',
+  },
+];
+
+// Keyset pagination for the list endpoints
+const CURSOR_PARAMS: ParamSpec[] = [
+  {
+    name: 'cursor',
+    type: 'string',
+    description:
+      'Opaque cursor from `next_cursor`, `prev_cursor` or a `Link` header; overrides offset, sort and order',
+  },
+  {
+    name: 'envelope',
+    type: 'boolean',
+    default: false,
+    description:
+      'Wrap results as `{ data, total, next_cursor, prev_cursor }` instead of a bare array',
+  },
+];
+
+const FORMAT_PARAMS: ParamSpec[] = [
+  {
+    name: 'format',
+    type: 'string',
+    enum: EXPORT_FORMATS,
+    description:
+      'Response format; overrides the Accept header. CSV flattens nested fields into dotted columns such as `cost.input`',
+  },
+];
+
+// Media types of the non-JSON export formats
+const EXPORT_CONTENT_TYPES = EXPORT_FORMATS.filter(
+  (format) => format !== 'json'
+).map((format) => CONTENT_TYPES[format].split(';')[0]);
+
+const MODEL_SORT_PARAMS: ParamSpec[] = [
+  {
+    name: 'sort',
+    type: 'string',
+    enum: MODEL_SORT_FIELDS,
+    description:
+      'Sort field, `name` by default; `relevance` puts the best matches for `q` first, with a `score` on each result',
+  },
+  {
+    name: 'order',
+    type: 'string',
+    enum: SORT_ORDERS,
+    default: 'asc',
+    description: 'Sort order',
+  },
+];
+
+const PROVIDER_FILTER_PARAMS: ParamSpec[] = [
+  {
+    name: 'q',
+    type: 'string',
+    description: 'Fuzzy search over provider id and name',
+  },
+  {
+    name: 'env',
+    type: 'string',
+    description: 'Filter by required environment variable',
+  },
+  { name: 'npm', type: 'string', description: 'Filter by npm package' },
+];
+
+const TOKEN_PARAMS: ParamSpec[] = USAGE_FIELDS.map((kind) => ({
+  name: `${kind}_tokens`,
+  type: 'integer',
+  minimum: 0,
+  description: `Number of ${kind.replace('_', ' ')} tokens`,
+}));
+
+const FEED_PARAMS: ParamSpec[] = [
+  { name: 'provider', type: 'string', description: 'Only this provider' },
+  {
+    name: 'family',
+    type: 'string',
+    description: 'Only this model family',
+    example: 'claude-sonnet',
+  },
+];
+
+// Response schemas
+
+const ERROR_SCHEMA = { $ref: '#/components/schemas/Error' };
+const MODEL_SCHEMA = { $ref: '#/components/schemas/Model' };
+const PROVIDER_SCHEMA = { $ref: '#/components/schemas/Provider' };
+const COUNT_SCHEMA = {
+  type: 'object',
+  properties: { count: { type: 'integer' } },
+  required: ['count'],
+};
+const OBJECT_SCHEMA = { type: 'object' };
+
+// A bare array, or the paging envelope with `envelope=true`
+function pageSchema(items: Record<string, unknown>): Record<string, unknown> {
+  const array = { type: 'array', items };
+  return {
+    oneOf: [
+      array,
+      {
+        type: 'object',
+        properties: {
+          data: array,
+          total: { type: 'integer' },
+          next_cursor: { type: ['string', 'null'] },
+          prev_cursor: { type: ['string', 'null'] },
+        },
+        required: ['data', 'total', 'next_cursor', 'prev_cursor'],
+      },
+    ],
+  };
+}
+
+const BAD_REQUEST: ResponseSpec = {
+  description: 'Invalid parameters',
+  schema: ERROR_SCHEMA,
+};
+const NOT_FOUND: ResponseSpec = {
+  description: 'Not found',
+  schema: ERROR_SCHEMA,
+};
+
+const COMPONENT_SCHEMAS = {
+  Cost: {
+    type: 'object',
+    description: 'Prices in USD per 1M tokens',
+    properties: {
+      input: { type: 'number' },
+      output: { type: 'number' },
+      reasoning: { type: 'number' },
+      cache_read: { type: 'number' },
+      cache_write: { type: 'number' },
+      input_audio: { type: 'number' },
+      output_audio: { type: 'number' },
+      context_over_200k: { $ref: '#/components/schemas/Cost' },
+    },
+  },
+  Model: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', examples: ['openai:gpt-4o'] },
+      provider: { type: 'string' },
+      name: { type: 'string' },
+      family: { type: 'string' },
+      release_date: { type: 'string' },
+      last_updated: { type: 'string' },
+      knowledge: { type: 'string' },
+      attachment: { type: 'boolean' },
+      reasoning: { type: 'boolean' },
+      temperature: { type: 'boolean' },
+      tool_call: { type: 'boolean' },
+      structured_output: { type: 'boolean' },
+      open_weights: { type: 'boolean' },
+      status: { type: 'string', enum: ['alpha', 'beta', 'deprecated'] },
+      cost: { $ref: '#/components/schemas/Cost' },
+      limit: {
+        type: 'object',
+        properties: {
+          context: { type: 'integer' },
+          input: { type: 'integer' },
+          output: { type: 'integer' },
+        },
+      },
+      modalities: {
+        type: 'object',
+        properties: {
+          input: { type: 'array', items: { enum: MODALITIES } },
+          output: { type: 'array', items: { enum: MODALITIES } },
+        },
+      },
+      provider_override: {
+        type: 'object',
+        description:
+          "Where the model is served differently from the rest of its provider's",
+        properties: {
+          npm: { type: 'string' },
+          api: { type: 'string' },
+          shape: { type: 'string', enum: API_SHAPES },
+        },
+      },
+    },
+    required: ['id', 'provider'],
+  },
+  Provider: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', examples: ['openai'] },
+      name: { type: 'string' },
+      env: { type: 'array', items: { type: 'string' } },
+      npm: { type: 'string' },
+      api: { type: 'string' },
+      doc: { type: 'string' },
+    },
+    required: ['id', 'name', 'env'],
+  },
+  Connection: {
+    type: 'object',
+    properties: {
+      model: { type: 'string' },
+      provider: { type: 'string' },
+      npm: {
+        type: ['string', 'null'],
+        examples: ['@ai-sdk/openai-compatible'],
+      },
+      api: {
+        type: ['string', 'null'],
+        description:
+          'Base URL, null for SDKs with a built-in endpoint; may contain placeholders for environment variables',
+      },
+      shape: {
+        type: ['string', 'null'],
+        enum: [...API_SHAPES, null],
+        description: "null when the SDK's default applies",
+      },
+      env: { type: 'array', items: { type: 'string' } },
+      overrides: {
+        type: 'array',
+        items: { type: 'string', enum: ['npm', 'api', 'shape'] },
+        description: 'Fields taken from the model rather than its provider',
+      },
+    },
+    required: ['model', 'provider', 'npm', 'api', 'shape', 'env', 'overrides'],
+  },
+  Comparison: {
+    type: 'object',
+    properties: {
+      models: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            provider: { type: 'string' },
+            name: { type: 'string' },
+            wins: {
+              type: 'integer',
+              description: 'Fields in which the model has the best value',
+            },
+          },
+          required: ['id', 'provider', 'wins'],
+        },
+      },
+      fields: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string', examples: ['cost.input'] },
+            category: {
+              type: 'string',
+              enum: ['cost', 'limits', 'modalities', 'capabilities', 'dates'],
+            },
+            prefer: {
+              type: 'string',
+              enum: ['lower', 'higher', 'true', 'newer', 'more'],
+              description: 'Which values count as best',
+            },
+            values: {
+              type: 'object',
+              additionalProperties: true,
+              description:
+                'Values keyed by model id, null where a model does not define the field',
+            },
+            winners: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'Ids of the models with the best value; empty on a tie',
+            },
+            differs: { type: 'boolean' },
+          },
+          required: [
+            'field',
+            'category',
+            'prefer',
+            'values',
+            'winners',
+            'differs',
+          ],
+        },
+      },
+      differences: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Fields whose values differ between the models',
+      },
+    },
+    required: ['models', 'fields', 'differences'],
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      status: { type: 'integer' },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            parameter: { type: 'string' },
+            message: { type: 'string' },
+            value: { type: 'string' },
+          },
+        },
+      },
+    },
+    required: ['error', 'status'],
+  },
+};
+
+const COMPONENT_REF = /^#\/components\/schemas\/(\w+)$/;
+
+type ComponentName = keyof typeof COMPONENT_SCHEMAS;
+
+function inlineRefs(value: unknown, seen: ComponentName[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => inlineRefs(item, seen));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const ref = (value as { $ref?: unknown }).$ref;
+  const name = typeof ref === 'string' && COMPONENT_REF.exec(ref)?.[1];
+  if (name) {
+    return componentSchema(name as ComponentName, seen);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, inlineRefs(item, seen)])
+  );
+}
+
+// A component schema with its references inlined, for consumers outside the
+// OpenAPI document such as MCP tool output schemas. Recursive references
+// (the long-context tier of Cost) are left as open objects.
+export function componentSchema(
+  name: ComponentName,
+  seen: ComponentName[] = []
+): Record<string, unknown> {
+  if (seen.includes(name)) {
+    return { type: 'object' };
+  }
+  return inlineRefs(COMPONENT_SCHEMAS[name], [...seen, name]) as Record<
+    string,
+    unknown
+  >;
+}
+
+// Route specs, keyed for use by the server when attaching validation
+
+export const ROUTES = {
+  health: {
+    method: 'get',
+    path: '/health',
+    summary: 'Health check',
+    tags: ['Meta'],
+    responses: { 200: { description: 'Server status', schema: OBJECT_SCHEMA } },
+  },
+  dataReport: {
+    method: 'get',
+    path: '/v1/admin/data-report',
+    summary: 'Data validation report',
+    description:
+      'Schema errors found while generating the catalog and the providers and models that were skipped: unreadable files, and in lenient mode invalid ones.',
+    tags: ['Meta'],
+    responses: {
+      200: {
+        description: 'Report of the last generation',
+        schema: OBJECT_SCHEMA,
+      },
+    },
+  },
+  mcpDiscovery: {
+    method: 'get',
+    path: '/.well-known/mcp',
+    summary: 'MCP server discovery',
+    tags: ['MCP'],
+    responses: {
+      200: { description: 'MCP server metadata', schema: OBJECT_SCHEMA },
+    },
+  },
+  models: {
+    method: 'get',
+    path: '/v1/models',
+    summary: 'List and search models',
+    tags: ['Models'],
+    params: [
+      ...MODEL_FILTER_PARAMS,
+      ...MODEL_SORT_PARAMS,
+      ...PAGINATION_PARAMS,
+      ...CURSOR_PARAMS,
+      ...FORMAT_PARAMS,
+      {
+        name: 'fields',
+        type: 'string',
+        list: true,
+        description: 'Comma-separated top-level fields to return',
+        example: 'id,name,provider',
+      },
+    ],
+    responses: {
+      200: {
+        description:
+          'Matching models, with a `Link` header when more pages exist',
+        schema: pageSchema(MODEL_SCHEMA),
+        textContentTypes: EXPORT_CONTENT_TYPES,
+      },
+      400: BAD_REQUEST,
+    },
+  },
+  modelsCount: {
+    method: 'get',
+    path: '/v1/models/count',
+    summary: 'Count models matching the filters',
+    tags: ['Models'],
+    params: MODEL_FILTER_PARAMS,
+    responses: {
+      200: { description: 'Number of matching models', schema: COUNT_SCHEMA },
+      400: BAD_REQUEST,
+    },
+  },
+  model: {
+    method: 'get',
+    path: '/v1/models/{id}',
+    summary: 'Get a model',
+    tags: ['Models'],
+    params: [
+      {
+        name: 'id',
+        in: 'path',
+        type: 'string',
+        required: true,
+        description:
+          'Model id; ids of models in vendor subdirectories contain a slash, accepted as is or percent-encoded',
+        example: 'openai:gpt-4o',
+      },
+    ],
+    responses: {
+      200: { description: 'The model', schema: MODEL_SCHEMA },
+      404: NOT_FOUND,
+    },
+  },
+  modelConnection: {
+    method: 'get',
+    path: '/v1/models/{id}/connection',
+    summary: 'How to connect to a model',
+    description:
+      "The SDK package, base URL, API shape and environment variables to use for a model: its provider's, with any the model overrides.",
+    tags: ['Models'],
+    params: [
+      {
+        name: 'id',
+        in: 'path',
+        type: 'string',
+        required: true,
+        description:
+          'Model id; ids of models in vendor subdirectories contain a slash, accepted as is or percent-encoded',
+        example: 'azure-cognitive-services:claude-opus-4-5',
+      },
+    ],
+    responses: {
+      200: {
+        description: 'Connection details',
+        schema: { $ref: '#/components/schemas/Connection' },
+      },
+      404: NOT_FOUND,
+    },
+  },
+  changes: {
+    method: 'get',
+    path: '/v1/changes',
+    summary: 'Catalog changelog',
+    description:
+      'Changes recorded each time the catalog is generated, newest first.',
+    tags: ['Changes'],
+    params: [
+      {
+        name: 'since',
+        type: 'date',
+        description: 'Only changes recorded on or after this day (YYYY-MM-DD)',
+      },
+      {
+        name: 'type',
+        type: 'string',
+        list: true,
+        enum: CHANGE_TYPES,
+        description: 'Comma-separated change types',
+      },
+      { name: 'provider', type: 'string', description: 'Only this provider' },
+    ],
+    responses: {
+      200: { description: 'Recorded changes', schema: OBJECT_SCHEMA },
+      400: BAD_REQUEST,
+    },
+  },
+  feedAtom: {
+    method: 'get',
+    path: '/v1/feed.atom',
+    summary: 'Atom feed of catalog changes',
+    tags: ['Changes'],
+    params: FEED_PARAMS,
+    responses: {
+      200: {
+        description: 'Atom feed',
+        contentType: 'application/atom+xml',
+        schema: { type: 'string' },
+      },
+    },
+  },
+  feedRss: {
+    method: 'get',
+    path: '/v1/feed.rss',
+    summary: 'RSS feed of catalog changes',
+    tags: ['Changes'],
+    params: FEED_PARAMS,
+    responses: {
+      200: {
+        description: 'RSS 2.0 feed',
+        contentType: 'application/rss+xml',
+        schema: { type: 'string' },
+      },
+    },
+  },
+  families: {
+    method: 'get',
+    path: '/v1/families',
+    summary: 'List model families',
+    tags: ['Families'],
+    responses: {
+      200: {
+        description: 'Families with offering counts',
+        schema: { type: 'array', items: OBJECT_SCHEMA },
+      },
+    },
+  },
+  family: {
+    method: 'get',
+    path: '/v1/families/{family}',
+    summary: 'Offerings of each model in a family',
+    tags: ['Families'],
+    params: [
+      {
+        name: 'family',
+        in: 'path',
+        type: 'string',
+        required: true,
+        description: 'Model family',
+        example: 'claude-sonnet',
+      },
+    ],
+    responses: {
+      200: { description: 'Grouped offerings', schema: OBJECT_SCHEMA },
+      404: NOT_FOUND,
+    },
+  },
+  compare: {
+    method: 'get',
+    path: '/v1/compare',
+    summary: 'Compare models side by side',
+    tags: ['Models'],
+    params: [
+      {
+        name: 'ids',
+        type: 'string',
+        list: true,
+        required: true,
+        description: 'Comma-separated model ids (2 to 10)',
+        example: 'anthropic:claude-sonnet-4-5,openai:gpt-4o',
+      },
+    ],
+    responses: {
+      200: {
+        description: 'Field-by-field comparison',
+        schema: { $ref: '#/components/schemas/Comparison' },
+      },
+      400: BAD_REQUEST,
+      404: NOT_FOUND,
+    },
+  },
+  recommend: {
+    method: 'get',
+    path: '/v1/recommend',
+    summary: 'Recommend models for a task',
+    tags: ['Models'],
+    params: [
+      ...MODEL_FILTER_PARAMS,
+      ...TOKEN_PARAMS,
+      {
+        name: 'max_cost',
+        type: 'number',
+        minimum: 0,
+        description: 'Maximum USD per request',
+      },
+      ...['price', 'context', 'recency', 'knowledge'].map(
+        (dimension): ParamSpec => ({
+          name: `weight_${dimension}`,
+          type: 'number',
+          minimum: 0,
+          description: `Weight of the ${dimension} score`,
+        })
+      ),
+      {
+        name: 'limit',
+        type: 'integer',
+        minimum: 0,
+        default: 10,
+        description: 'Maximum recommendations',
+      },
+      {
+        name: 'near_miss_limit',
+        type: 'integer',
+        minimum: 0,
+        default: 5,
+        description: 'Maximum near misses',
+      },
+    ],
+    responses: {
+      200: { description: 'Ranked shortlist', schema: OBJECT_SCHEMA },
+      400: BAD_REQUEST,
+    },
+  },
+  estimate: {
+    method: 'get',
+    path: '/v1/estimate',
+    summary: 'Estimate the cost of a workload across models',
+    tags: ['Models'],
+    params: [
+      ...MODEL_FILTER_PARAMS,
+      ...TOKEN_PARAMS,
+      {
+        name: 'order',
+        type: 'string',
+        enum: SORT_ORDERS,
+        default: 'asc',
+        description: 'Rank order by total cost',
+      },
+      ...PAGINATION_PARAMS,
+    ],
+    responses: {
+      200: { description: 'Ranked cost estimates', schema: OBJECT_SCHEMA },
+      400: BAD_REQUEST,
+    },
+  },
+  providers: {
+    method: 'get',
+    path: '/v1/providers',
+    summary: 'List and search providers',
+    tags: ['Providers'],
+    params: [
+      ...PROVIDER_FILTER_PARAMS,
+      {
+        name: 'sort',
+        type: 'string',
+        enum: PROVIDER_SORT_FIELDS,
+        description:
+          'Sort field, `id` by default; `relevance` puts the best matches for `q` first, with a `score` on each result',
+      },
+      ...PAGINATION_PARAMS,
+      ...CURSOR_PARAMS,
+      ...FORMAT_PARAMS,
+    ],
+    responses: {
+      200: {
+        description:
+          'Matching providers, with a `Link` header when more pages exist',
+        schema: pageSchema(PROVIDER_SCHEMA),
+        textContentTypes: EXPORT_CONTENT_TYPES,
+      },
+      400: BAD_REQUEST,
+    },
+  },
+  providersCount: {
+    method: 'get',
+    path: '/v1/providers/count',
+    summary: 'Count providers matching the filters',
+    tags: ['Providers'],
+    params: PROVIDER_FILTER_PARAMS,
+    responses: {
+      200: {
+        description: 'Number of matching providers',
+        schema: COUNT_SCHEMA,
+      },
+      400: BAD_REQUEST,
+    },
+  },
+  suggestions: {
+    method: 'get',
+    path: '/v1/search/suggestions',
+    summary: 'Search suggestions for model and provider names',
+    tags: ['Search'],
+    params: [
+      {
+        name: 'q',
+        type: 'string',
+        description: 'Partial query (at least 2 characters)',
+      },
+      {
+        name: 'limit',
+        type: 'integer',
+        minimum: 0,
+        default: 10,
+        description: 'Maximum suggestions',
+      },
+    ],
+    responses: {
+      200: { description: 'Suggestions', schema: OBJECT_SCHEMA },
+      400: BAD_REQUEST,
+    },
+  },
+  graphql: {
+    method: 'get',
+    path: '/graphql',
+    summary: 'GraphQL query',
+    description:
+      'Models and providers with their relations in one request. Arguments match the REST filter, sort and pagination parameters. The schema is at /graphql/schema and supports introspection.',
+    tags: ['GraphQL'],
+    params: [
+      {
+        name: 'query',
+        type: 'string',
+        required: true,
+        description: 'GraphQL query document',
+        example:
+          '{ providers { id models(reasoning: true, sort: cost_input, limit: 3) { id cost { input } } } }',
+      },
+      {
+        name: 'variables',
+        type: 'string',
+        description: 'JSON object of variable values',
+      },
+      {
+        name: 'operationName',
+        type: 'string',
+        description: 'Operation to run when the document has several',
+      },
+    ],
+    responses: {
+      200: { description: 'GraphQL response', schema: OBJECT_SCHEMA },
+      400: {
+        description: 'Malformed or invalid query',
+        schema: OBJECT_SCHEMA,
+      },
+    },
+  },
+  graphqlPost: {
+    method: 'post',
+    path: '/graphql',
+    summary: 'GraphQL query',
+    description:
+      'Takes `{ query, variables, operationName }` as JSON, or the query alone as `application/graphql`.',
+    tags: ['GraphQL'],
+    responses: {
+      200: { description: 'GraphQL response', schema: OBJECT_SCHEMA },
+      400: {
+        description: 'Malformed or invalid query',
+        schema: OBJECT_SCHEMA,
+      },
+    },
+  },
+  graphqlSchema: {
+    method: 'get',
+    path: '/graphql/schema',
+    summary: 'GraphQL schema',
+    tags: ['GraphQL'],
+    responses: {
+      200: {
+        description: 'Schema definition language',
+        contentType: 'text/plain',
+        schema: { type: 'string' },
+      },
+    },
+  },
+  mcp: {
+    method: 'post',
+    path: '/mcp',
+    summary: 'MCP over HTTP (JSON-RPC)',
+    tags: ['MCP'],
+    responses: { 200: { description: 'JSON-RPC response' } },
+  },
+} satisfies Record<string, RouteSpec>;
+
+// Parameter validation
+
+const ISO_DAY_LENGTH = 10;
+const BOOLEAN_VALUES = ['true', 'false'];
+// YYYY-MM, YYYY-MM-DD or a full ISO 8601 timestamp
+const ISO_DATE =
+  /^\d{4}-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?$/;
+
+// Also rejects days that roll over into the next month, e.g. 2024-02-31
+function isValidDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) {
+    return false;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return false;
+  }
+  return (
+    value.length !== ISO_DAY_LENGTH || date.toISOString().startsWith(value)
+  );
+}
+
+function checkValue(spec: ParamSpec, value: string): string | undefined {
+  switch (spec.type) {
+    case 'boolean':
+      return BOOLEAN_VALUES.includes(value.toLowerCase())
+        ? undefined
+        : 'must be true or false';
+    case 'number':
+    case 'integer': {
+      const num = Number(value);
+      if (value.trim() === '' || !Number.isFinite(num)) {
+        return 'must be a number';
+      }
+      if (spec.type === 'integer' && !Number.isInteger(num)) {
+        return 'must be an integer';
+      }
+      if (spec.minimum !== undefined && num < spec.minimum) {
+        return `must be at least ${spec.minimum}`;
+      }
+      return;
+    }
+    case 'date':
+      return isValidDate(value)
+        ? undefined
+        : 'must be an ISO 8601 date (YYYY-MM-DD)';
+    default:
+      return;
+  }
+}
+
+function checkParam(
+  spec: ParamSpec,
+  value: string | undefined
+): ValidationIssue | undefined {
+  if (value === undefined || value === '') {
+    return spec.required
+      ? { parameter: spec.name, message: 'is required', value: value ?? '' }
+      : undefined;
+  }
+
+  const items = spec.list ? value.split(',').map((v) => v.trim()) : [value];
+  for (const item of items) {
+    let message = checkValue(spec, item);
+    if (!message && spec.enum && !spec.enum.includes(item)) {
+      message = `must be one of ${spec.enum.join(', ')}`;
+    }
+    message ??= spec.check?.(item);
+    if (message) {
+      return { parameter: spec.name, message, value: item };
+    }
+  }
+}
+
+export function validateParams(
+  params: ParamSpec[],
+  values: Record<string, string | undefined>
+): ValidationIssue[] {
+  return params
+    .map((spec) => checkParam(spec, values[spec.name]))
+    .filter((issue): issue is ValidationIssue => issue !== undefined);
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((i) => `${i.parameter} ${i.message}`).join('; ');
+}
+
+// Typed arguments, e.g. from GraphQL or an MCP tool call, as the query
+// parameters they stand for, with the issues a query string would have
+export function checkArguments(
+  params: ParamSpec[],
+  args: Record<string, unknown>
+): { values: Record<string, string>; issues: ValidationIssue[] } {
+  const values = toQueryParams(args as ModelQuery);
+  return { values, issues: validateParams(params, values) };
+}
+
+const HTTP_BAD_REQUEST = 400;
+
+// Reject requests whose query parameters do not match the route spec
+export function validateQuery(route: RouteSpec): MiddlewareHandler {
+  const params = (route.params ?? []).filter((p) => p.in !== 'path');
+  return async (c, next) => {
+    const issues = validateParams(params, c.req.query());
+    if (issues.length) {
+      return c.json(
+        {
+          error: `Invalid query parameters: ${formatIssues(issues)}`,
+          status: HTTP_BAD_REQUEST,
+          issues,
+        },
+        HTTP_BAD_REQUEST
+      );
+    }
+    await next();
+  };
+}
+
+// OpenAPI document
+
+function paramSchema(spec: ParamSpec): Record<string, unknown> {
+  let schema: Record<string, unknown>;
+  switch (spec.type) {
+    case 'date':
+      schema = { type: 'string', format: 'date' };
+      break;
+    default:
+      schema = { type: spec.type };
+  }
+  if (spec.enum && !spec.list) {
+    schema.enum = spec.enum;
+  }
+  if (spec.minimum !== undefined) {
+    schema.minimum = spec.minimum;
+  }
+  if (spec.default !== undefined) {
+    schema.default = spec.default;
+  }
+  return schema;
+}
+
+function describeParam(spec: ParamSpec): string {
+  return spec.list && spec.enum
+    ? `${spec.description} (${spec.enum.join(', ')})`
+    : spec.description;
+}
+
+const COMMA_SEPARATED = /^Comma-separated (\w)/;
+
+// Where parameters are typed arguments, lists are arrays rather than
+// comma-separated strings
+export function describeArgument(spec: ParamSpec): string {
+  return spec.list
+    ? spec.description.replace(COMMA_SEPARATED, (_, first: string) =>
+        first.toUpperCase()
+      )
+    : spec.description;
+}
+
+// JSON Schema properties for parameters taken as typed arguments
+export function argumentsSchema(
+  params: ParamSpec[]
+): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(
+    params.map((spec) => [
+      spec.name,
+      {
+        ...(spec.list
+          ? {
+              type: 'array',
+              items: { type: 'string', ...(spec.enum && { enum: spec.enum }) },
+            }
+          : paramSchema(spec)),
+        description: describeArgument(spec),
+      },
+    ])
+  );
+}
+
+export function buildOpenAPIDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of Object.values(ROUTES) as RouteSpec[]) {
+    const responses: Record<string, unknown> = {};
+    for (const [status, response] of Object.entries(route.responses)) {
+      responses[status] = {
+        description: response.description,
+        ...(response.schema
+          ? {
+              content: {
+                [response.contentType ?? 'application/json']: {
+                  schema: response.schema,
+                },
+                ...Object.fromEntries(
+                  (response.textContentTypes ?? []).map((type) => [
+                    type,
+                    { schema: { type: 'string' } },
+                  ])
+                ),
+              },
+            }
+          : {}),
+      };
+    }
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        summary: route.summary,
+        ...(route.description ? { description: route.description } : {}),
+        tags: route.tags,
+        parameters: (route.params ?? []).map((spec) => ({
+          name: spec.name,
+          in: spec.in ?? 'query',
+          required: spec.in === 'path' || Boolean(spec.required),
+          description: describeParam(spec),
+          schema: paramSchema(spec),
+          ...(spec.example === undefined ? {} : { example: spec.example }),
+        })),
+        responses,
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Models PLUS API',
+      version: '0.0.1',
+      description:
+        'AI model and provider metadata built on models.dev. All prices are USD per 1M tokens.',
+      license: { name: 'MIT', identifier: 'MIT' },
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS },
+  };
+}
+
+export function renderDocsPage(specUrl: string): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Models PLUS API</title>
+    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui' });
+    </script>
+  </body>
+</html>
+`;
+}
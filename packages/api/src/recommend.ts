@@ -0,0 +1,246 @@
+import {
+  estimateCost,
+  type TokenUsage,
+  totalTokens,
+} from '@modelsplus/shared/estimate';
+import type { Model } from '@modelsplus/shared/types';
+
+export type RecommendWeights = {
+  price: number;
+  context: number;
+  recency: number;
+  knowledge: number;
+};
+
+export const DEFAULT_WEIGHTS: RecommendWeights = {
+  price: 0.4,
+  context: 0.2,
+  recency: 0.2,
+  knowledge: 0.2,
+};
+
+// A hard requirement; models failing exactly one of them are near misses
+export type RequirementConstraint = {
+  name: string;
+  requirement: string;
+  test: (model: Model) => boolean;
+};
+
+export type Recommendation = {
+  id: string;
+  provider: string;
+  name?: string;
+  score: number;
+  estimated_cost?: number;
+  context_headroom?: number;
+  scores: RecommendWeights;
+  reasons: string[];
+};
+
+export type NearMiss = Recommendation & {
+  failed: { constraint: string; requirement: string };
+};
+
+export type RecommendResult = {
+  recommendations: Recommendation[];
+  near_misses: NearMiss[];
+  count: number;
+};
+
+type Dimension = keyof RecommendWeights;
+
+const DIMENSIONS: Dimension[] = ['price', 'context', 'recency', 'knowledge'];
+
+const SCORE_PRECISION = 1000;
+
+const PERCENT = 100;
+
+type Metrics = Partial<Record<Dimension, number>> & {
+  estimated_cost?: number;
+  context_headroom?: number;
+};
+
+function timestamp(value: string | undefined): number | undefined {
+  if (!value) {
+    return;
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Raw metrics for each dimension, oriented so that larger is better
+function collectMetrics(model: Model, usage: TokenUsage): Metrics {
+  const metrics: Metrics = {};
+  const tokens = totalTokens(usage);
+
+  if (tokens > 0) {
+    const estimate = estimateCost(model, usage);
+    if (estimate) {
+      metrics.estimated_cost = estimate.total;
+      metrics.price = -estimate.total;
+    }
+  } else if (
+    model.cost?.input !== undefined &&
+    model.cost?.output !== undefined
+  ) {
+    metrics.price = -(model.cost.input + model.cost.output);
+  }
+
+  if (model.limit?.context) {
+    metrics.context = model.limit.context;
+    if (tokens > 0) {
+      metrics.context_headroom =
+        Math.round((model.limit.context / tokens) * PERCENT) / PERCENT;
+    }
+  }
+
+  metrics.recency = timestamp(model.release_date);
+  metrics.knowledge = timestamp(model.knowledge);
+  return metrics;
+}
+
+// Fraction of the pool each value beats, from 0 (worst) to 1 (best)
+function percentiles(values: Array<number | undefined>): number[] {
+  const known = values
+    .filter((v): v is number => v !== undefined)
+    .sort((a, b) => a - b);
+  return values.map((value) => {
+    if (value === undefined || !known.length) {
+      return 0;
+    }
+    if (known.length === 1) {
+      return 1;
+    }
+    let low = 0;
+    let high = known.length;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (known[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low / (known.length - 1);
+  });
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * PERCENT)}%`;
+}
+
+function explain(
+  model: Model,
+  metrics: Metrics,
+  scores: RecommendWeights
+): string[] {
+  const reasons: string[] = [];
+
+  if (metrics.estimated_cost !== undefined) {
+    reasons.push(
+      `Estimated $${metrics.estimated_cost} per request, cheaper than ${formatPercent(scores.price)} of candidates`
+    );
+  } else if (metrics.price === undefined) {
+    reasons.push('No pricing data, price score is 0');
+  } else {
+    reasons.push(
+      `$${model.cost?.input}/$${model.cost?.output} per 1M input/output tokens, cheaper than ${formatPercent(scores.price)} of candidates`
+    );
+  }
+
+  if (metrics.context === undefined) {
+    reasons.push('No context limit published, context score is 0');
+  } else {
+    const headroom =
+      metrics.context_headroom === undefined
+        ? ''
+        : ` (${metrics.context_headroom}x the expected request)`;
+    reasons.push(
+      `Context window of ${metrics.context} tokens${headroom}, larger than ${formatPercent(scores.context)} of candidates`
+    );
+  }
+
+  reasons.push(
+    model.release_date
+      ? `Released ${model.release_date}, newer than ${formatPercent(scores.recency)} of candidates`
+      : 'No release date, recency score is 0'
+  );
+  reasons.push(
+    model.knowledge
+      ? `Knowledge cutoff ${model.knowledge}, later than ${formatPercent(scores.knowledge)} of candidates`
+      : 'No knowledge cutoff published, knowledge score is 0'
+  );
+
+  return reasons;
+}
+
+function round(value: number): number {
+  return Math.round(value * SCORE_PRECISION) / SCORE_PRECISION;
+}
+
+export function recommendModels(
+  models: Model[],
+  constraints: RequirementConstraint[],
+  usage: TokenUsage,
+  weights: RecommendWeights
+): RecommendResult {
+  // Keep models that fail at most one requirement
+  const pool: Array<{ model: Model; failed?: RequirementConstraint }> = [];
+  for (const model of models) {
+    const failed = constraints.filter((constraint) => !constraint.test(model));
+    if (failed.length <= 1) {
+      pool.push({ model, failed: failed[0] });
+    }
+  }
+
+  const metrics = pool.map(({ model }) => collectMetrics(model, usage));
+  const ranks = Object.fromEntries(
+    DIMENSIONS.map((dimension) => [
+      dimension,
+      percentiles(metrics.map((m) => m[dimension])),
+    ])
+  ) as Record<Dimension, number[]>;
+
+  const totalWeight = DIMENSIONS.reduce((sum, d) => sum + weights[d], 0);
+
+  const recommendations: Recommendation[] = [];
+  const nearMisses: NearMiss[] = [];
+
+  pool.forEach(({ model, failed }, index) => {
+    const scores = {} as RecommendWeights;
+    let weighted = 0;
+    for (const dimension of DIMENSIONS) {
+      scores[dimension] = round(ranks[dimension][index]);
+      weighted += weights[dimension] * ranks[dimension][index];
+    }
+
+    const recommendation: Recommendation = {
+      id: model.id,
+      provider: model.provider,
+      name: model.name,
+      score: totalWeight > 0 ? round(weighted / totalWeight) : 0,
+      estimated_cost: metrics[index].estimated_cost,
+      context_headroom: metrics[index].context_headroom,
+      scores,
+      reasons: explain(model, metrics[index], scores),
+    };
+
+    if (failed) {
+      nearMisses.push({
+        ...recommendation,
+        failed: { constraint: failed.name, requirement: failed.requirement },
+      });
+    } else {
+      recommendations.push(recommendation);
+    }
+  });
+
+  // Stable sort keeps the caller's ordering for equal scores
+  const byScore = (a: Recommendation, b: Recommendation) => b.score - a.score;
+
+  return {
+    recommendations: recommendations.sort(byScore),
+    near_misses: nearMisses.sort(byScore),
+    count: recommendations.length,
+  };
+}
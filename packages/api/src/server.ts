@@ -1,82 +1,86 @@
-import { Hono } from 'hono';
-import {
-  handleMCPOptions,
-  handleMCPRequest,
-  handleMCPStream,
-} from './mcp-http';
-
-// Type definitions
-type Model = {
-  id: string;
-  provider: string;
-  name?: string;
-  release_date?: string;
-  last_updated?: string;
-  attachment?: boolean;
-  reasoning?: boolean;
-  temperature?: boolean;
-  tool_call?: boolean;
-  open_weights?: boolean;
-  knowledge?: string;
-  cost?: {
-    input?: number;
-    output?: number;
-    cache_read?: number;
-    cache_write?: number;
-  };
-  limit?: {
-    context?: number;
-    output?: number;
-  };
-  modalities?: {
-    input?: string[];
-    output?: string[];
-  };
-  [key: string]: unknown;
-};
-
-type Provider = {
-  id: string;
-  name: string;
-  env: string[];
-  npm?: string;
-  api?: string;
-  doc?: string;
-  [key: string]: unknown;
-};
-
-type QueryOptions = {
-  q?: string;
-  provider?: string;
-  tool_call?: string;
-  attachment?: string;
-  reasoning?: string;
-  temperature?: string;
-  open_weights?: string;
-  min_input_cost?: string;
-  max_input_cost?: string;
-  min_output_cost?: string;
-  max_output_cost?: string;
-  min_context?: string;
-  max_context?: string;
-  min_output_limit?: string;
-  max_output_limit?: string;
-  modalities?: string;
-  release_after?: string;
-  release_before?: string;
-  updated_after?: string;
-  updated_before?: string;
-  sort?: string;
-  order?: string;
-  limit?: string;
-  offset?: string;
-  fields?: string;
-};
-
 // Import pre-generated JSON data (compatible with both Bun and Node.js)
 import { readFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import {
+  compareModels,
+  MAX_COMPARE_MODELS,
+  parseCompareIds,
+} from '@modelsplus/shared/compare';
+import { resolveConnection } from '@modelsplus/shared/connection';
+import { InvalidCursorError } from '@modelsplus/shared/cursor';
+import {
+  estimateCost,
+  estimateModels,
+  type TokenUsage,
+  totalTokens,
+  USAGE_FIELDS,
+} from '@modelsplus/shared/estimate';
+import {
+  filterModels,
+  filterProviders,
+  type ModelFilters,
+  parseModelFilters,
+  parseModelQuery,
+  parseProviderQuery,
+  type QueryResult,
+  queryModels,
+  queryProviders,
+  sortModels,
+} from '@modelsplus/shared/query';
+import {
+  MODEL_SEARCH_FIELDS,
+  PROVIDER_SEARCH_FIELDS,
+  registerSearchIndex,
+  type SearchIndex,
+} from '@modelsplus/shared/search';
+import {
+  buildSuggestionIndex,
+  type SuggestionIndex,
+  suggest,
+} from '@modelsplus/shared/suggest';
+import type { Model, Provider } from '@modelsplus/shared/types';
+import type { DataReport } from '@modelsplus/shared/validate';
+import { printSchema } from 'graphql';
+import { type Context, Hono } from 'hono';
+import { conditionalGet, type DataVersion } from './caching';
+import type { CatalogChange } from './changes';
+import {
+  groupModels,
+  isModelFamily,
+  type ModelGroup,
+  summarizeFamilies,
+} from './families';
+import { feedChanges, renderAtom, renderRss } from './feed';
+import {
+  CONTENT_TYPES,
+  type ExportFormat,
+  negotiateFormat,
+  toCSV,
+  toNDJSONStream,
+  toYAML,
+} from './formats';
+import { createGraphQLSchema } from './graphql';
+import { handleGraphQLRequest } from './graphql-http';
+import {
+  handleMCPOptions,
+  handleMCPRequest,
+  handleStatelessMCPRequest,
+  MCP_CAPABILITIES,
+} from './mcp-http';
+import {
+  buildOpenAPIDocument,
+  ROUTES,
+  renderDocsPage,
+  validateQuery,
+} from './openapi';
+import {
+  DEFAULT_WEIGHTS,
+  type RecommendWeights,
+  type RequirementConstraint,
+  recommendModels,
+} from './recommend';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -88,15 +92,51 @@ const modelsData: Model[] = JSON.parse(
 const providersData: Provider[] = JSON.parse(
   readFileSync(join(__dirname, 'providers.json'), 'utf-8')
 );
+const changelogData: CatalogChange[] = JSON.parse(
+  readFileSync(join(__dirname, 'changelog.json'), 'utf-8')
+);
+// Validation errors and skipped entries from the last generate run
+const dataReport: DataReport = JSON.parse(
+  readFileSync(join(__dirname, 'data-report.json'), 'utf-8')
+);
 
-// Helper functions
-function parseBoolean(value: string | undefined): boolean | undefined {
-  if (!value) {
-    return;
-  }
-  return value.toLowerCase() === 'true';
-}
+// Hash and modification time of the generated data, for conditional GETs
+const dataVersion: DataVersion = JSON.parse(
+  readFileSync(join(__dirname, 'data-version.json'), 'utf-8')
+);
+const cacheable = conditionalGet(dataVersion);
+// List routes also vary by export format
+const cacheableList = conditionalGet(dataVersion, (c) => {
+  const format = readFormat(c);
+  return format === 'json' ? undefined : format;
+});
+
+// Search index built by generate.ts for the lists above
+const searchIndexes: { models: SearchIndex; providers: SearchIndex } =
+  JSON.parse(readFileSync(join(__dirname, 'search-index.json'), 'utf-8'));
+registerSearchIndex(modelsData, MODEL_SEARCH_FIELDS, searchIndexes.models);
+registerSearchIndex(
+  providersData,
+  PROVIDER_SEARCH_FIELDS,
+  searchIndexes.providers
+);
+
+// Model names and ids and provider names, for /v1/search/suggestions
+const suggestionIndex: SuggestionIndex = buildSuggestionIndex([
+  ...modelsData.flatMap((model) => [model.name, model.id]),
+  ...providersData.map((provider) => provider.name),
+]);
+
+// Equivalent models across providers, grouped once since the data is static
+const modelGroups: ModelGroup[] = groupModels(modelsData);
+
+const graphqlSchema = createGraphQLSchema(modelsData, providersData);
 
+const HTTP_OK = 200;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+
+// Helper functions
 function parseNumber(value: string | undefined): number | undefined {
   if (!value) {
     return;
@@ -105,260 +145,155 @@ function parseNumber(value: string | undefined): number | undefined {
   return Number.isNaN(num) ? undefined : num;
 }
 
-function parseDate(value: string | undefined): Date | undefined {
-  if (!value) {
-    return;
-  }
-  const date = new Date(value);
-  return Number.isNaN(date.getTime()) ? undefined : date;
+// Filter parameters shared by every route that narrows the model list
+function readFilterOptions(c: Context): ModelFilters {
+  return parseModelFilters(c.req.query());
 }
 
-function filterModels(models: Model[], options: QueryOptions): Model[] {
-  const predicates: Array<(model: Model) => boolean> = [];
-
-  // Text search
-  const buildTextPredicate = () => {
-    if (!options.q) {
-      return [] as Array<(m: Model) => boolean>;
-    }
-    const query = options.q.toLowerCase();
-    return [
-      (model: Model) =>
-        `${model.id} ${model.name ?? ''} ${model.provider}`
-          .toLowerCase()
-          .includes(query),
-    ];
-  };
-
-  // Provider filter
-  const buildProviderPredicate = () => {
-    if (!options.provider) {
-      return [] as Array<(m: Model) => boolean>;
-    }
-    return [(model: Model) => model.provider === options.provider];
-  };
-
-  // Boolean filters
-  const buildBooleanPredicates = () => {
-    const list: Array<(m: Model) => boolean> = [];
-    if (options.tool_call !== undefined) {
-      const val = parseBoolean(options.tool_call);
-      list.push((m) => m.tool_call === val);
-    }
-    if (options.attachment !== undefined) {
-      const val = parseBoolean(options.attachment);
-      list.push((m) => m.attachment === val);
-    }
-    if (options.reasoning !== undefined) {
-      const val = parseBoolean(options.reasoning);
-      list.push((m) => m.reasoning === val);
-    }
-    if (options.temperature !== undefined) {
-      const val = parseBoolean(options.temperature);
-      list.push((m) => m.temperature === val);
-    }
-    if (options.open_weights !== undefined) {
-      const val = parseBoolean(options.open_weights);
-      list.push((m) => m.open_weights === val);
-    }
-    return list;
-  };
-
-  // Cost filters
-  const buildCostPredicates = () => {
-    const list: Array<(m: Model) => boolean> = [];
-    if (options.min_input_cost !== undefined) {
-      const min = parseNumber(options.min_input_cost);
-      list.push(
-        (m) =>
-          Boolean(min && m.cost?.input) &&
-          (m.cost?.input as number) >= (min as number)
-      );
-    }
-    if (options.max_input_cost !== undefined) {
-      const max = parseNumber(options.max_input_cost);
-      list.push(
-        (m) =>
-          Boolean(max && m.cost?.input) &&
-          (m.cost?.input as number) <= (max as number)
-      );
-    }
-    if (options.min_output_cost !== undefined) {
-      const min = parseNumber(options.min_output_cost);
-      list.push(
-        (m) =>
-          Boolean(min && m.cost?.output) &&
-          (m.cost?.output as number) >= (min as number)
-      );
-    }
-    if (options.max_output_cost !== undefined) {
-      const max = parseNumber(options.max_output_cost);
-      list.push(
-        (m) =>
-          Boolean(max && m.cost?.output) &&
-          (m.cost?.output as number) <= (max as number)
-      );
+// RFC 8288 links to neighbouring pages, built from the request URL
+function buildLinkHeader(
+  requestUrl: string,
+  page: QueryResult<unknown>
+): string | undefined {
+  if (!(page.next_cursor || page.prev_cursor)) {
+    return;
+  }
+  const linkTo = (cursor: string | null, rel: string) => {
+    const url = new URL(requestUrl);
+    url.searchParams.delete('offset');
+    url.searchParams.delete('cursor');
+    if (cursor) {
+      url.searchParams.set('cursor', cursor);
     }
-    return list;
+    return `<${url.toString()}>; rel="${rel}"`;
   };
+  const links = [linkTo(null, 'first')];
+  if (page.prev_cursor) {
+    links.push(linkTo(page.prev_cursor, 'prev'));
+  }
+  if (page.next_cursor) {
+    links.push(linkTo(page.next_cursor, 'next'));
+  }
+  return links.join(', ');
+}
 
-  // Limit filters
-  const buildLimitPredicates = () => {
-    const list: Array<(m: Model) => boolean> = [];
-    if (options.min_context !== undefined) {
-      const min = parseNumber(options.min_context);
-      list.push(
-        (m) =>
-          Boolean(min && m.limit?.context) &&
-          (m.limit?.context as number) >= (min as number)
-      );
-    }
-    if (options.max_context !== undefined) {
-      const max = parseNumber(options.max_context);
-      list.push(
-        (m) =>
-          Boolean(max && m.limit?.context) &&
-          (m.limit?.context as number) <= (max as number)
-      );
-    }
-    if (options.min_output_limit !== undefined) {
-      const min = parseNumber(options.min_output_limit);
-      list.push(
-        (m) =>
-          Boolean(min && m.limit?.output) &&
-          (m.limit?.output as number) >= (min as number)
-      );
-    }
-    if (options.max_output_limit !== undefined) {
-      const max = parseNumber(options.max_output_limit);
-      list.push(
-        (m) =>
-          Boolean(max && m.limit?.output) &&
-          (m.limit?.output as number) <= (max as number)
-      );
-    }
-    return list;
-  };
+function readFormat(c: Context): ExportFormat {
+  return negotiateFormat(c.req.query('format'), c.req.header('Accept'));
+}
 
-  // Date filters
-  const buildDatePredicates = () => {
-    const list: Array<(m: Model) => boolean> = [];
-    if (options.release_after) {
-      const after = parseDate(options.release_after);
-      list.push(
-        (m) =>
-          Boolean(after && m.release_date) &&
-          new Date(m.release_date as string) >= (after as Date)
-      );
-    }
-    if (options.release_before) {
-      const before = parseDate(options.release_before);
-      list.push(
-        (m) =>
-          Boolean(before && m.release_date) &&
-          new Date(m.release_date as string) <= (before as Date)
-      );
-    }
-    if (options.updated_after) {
-      const after = parseDate(options.updated_after);
-      list.push(
-        (m) =>
-          Boolean(after && m.last_updated) &&
-          new Date(m.last_updated as string) >= (after as Date)
-      );
-    }
-    if (options.updated_before) {
-      const before = parseDate(options.updated_before);
-      list.push(
-        (m) =>
-          Boolean(before && m.last_updated) &&
-          new Date(m.last_updated as string) <= (before as Date)
+// List responses are bare arrays unless `envelope=true` asks for paging
+// metadata, which CSV and NDJSON carry in headers only; a malformed or
+// mismatched cursor is a client error
+function respondWithPage<T extends Record<string, unknown>>(
+  c: Context,
+  runQuery: () => QueryResult<T>
+) {
+  let page: QueryResult<T>;
+  try {
+    page = runQuery();
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json(
+        { error: error.message, status: HTTP_BAD_REQUEST },
+        HTTP_BAD_REQUEST
       );
     }
-    return list;
-  };
-
-  // Modalities
-  const buildModalitiesPredicate = () => {
-    if (!options.modalities) {
-      return [] as Array<(m: Model) => boolean>;
-    }
-    const requested = options.modalities
-      .split(',')
-      .map((m) => m.trim().toLowerCase());
-    return [
-      (m: Model) => {
-        const available = [
-          ...(m.modalities?.input || []),
-          ...(m.modalities?.output || []),
-        ].map((v) => v.toLowerCase());
-        return requested.every((mod) => available.includes(mod));
-      },
-    ];
-  };
+    throw error;
+  }
 
-  predicates.push(
-    ...buildTextPredicate(),
-    ...buildProviderPredicate(),
-    ...buildBooleanPredicates(),
-    ...buildCostPredicates(),
-    ...buildLimitPredicates(),
-    ...buildDatePredicates(),
-    ...buildModalitiesPredicate()
-  );
+  const link = buildLinkHeader(c.req.url, page);
+  if (link) {
+    c.header('Link', link);
+  }
+  c.header('X-Total-Count', String(page.total));
 
-  if (!predicates.length) {
-    return models;
+  const format = readFormat(c);
+  const headers = { 'Content-Type': CONTENT_TYPES[format] };
+  if (format === 'csv') {
+    return c.body(toCSV(page.items), HTTP_OK, headers);
+  }
+  if (format === 'ndjson') {
+    return c.body(toNDJSONStream(page.items), HTTP_OK, headers);
   }
-  return models.filter((m) => predicates.every((p) => p(m)));
+  const body =
+    c.req.query('envelope') === 'true'
+      ? {
+          data: page.items,
+          total: page.total,
+          next_cursor: page.next_cursor,
+          prev_cursor: page.prev_cursor,
+        }
+      : page.items;
+  return format === 'yaml'
+    ? c.body(toYAML(body), HTTP_OK, headers)
+    : c.json(body);
 }
 
-function sortModels(models: Model[], sortBy = 'name', order = 'asc'): Model[] {
-  const getters: Record<string, (m: Model) => string | number> = {
-    name: (m) => (m.name || m.id).toLowerCase(),
-    provider: (m) => m.provider.toLowerCase(),
-    release_date: (m) =>
-      m.release_date ? new Date(m.release_date).getTime() : 0,
-    last_updated: (m) =>
-      m.last_updated ? new Date(m.last_updated).getTime() : 0,
-    cost_input: (m) => m.cost?.input || 0,
-    cost_output: (m) => m.cost?.output || 0,
-    context_limit: (m) => m.limit?.context || 0,
-    output_limit: (m) => m.limit?.output || 0,
-  };
-
-  const getter = getters[sortBy] ?? getters.name;
-
-  return [...models].sort((a, b) => {
-    const aVal = getter(a);
-    const bVal = getter(b);
+function readTokenUsage(c: Context): TokenUsage {
+  const usage = {} as TokenUsage;
+  for (const field of USAGE_FIELDS) {
+    const tokens = parseNumber(c.req.query(`${field}_tokens`));
+    usage[field] = tokens && tokens > 0 ? tokens : 0;
+  }
+  return usage;
+}
 
-    let cmp = 0;
-    if (aVal === bVal) {
-      cmp = 0;
-    } else if (aVal > bVal) {
-      cmp = 1;
-    } else {
-      cmp = -1;
+function readRecommendWeights(c: Context): RecommendWeights {
+  const weights = { ...DEFAULT_WEIGHTS };
+  for (const dimension of Object.keys(weights) as Array<
+    keyof RecommendWeights
+  >) {
+    const value = parseNumber(c.req.query(`weight_${dimension}`));
+    if (value !== undefined) {
+      weights[dimension] = Math.max(value, 0);
     }
-    return order === 'desc' ? -cmp : cmp;
-  });
+  }
+  return weights;
 }
 
-function selectFields<T extends Record<string, unknown>>(
-  obj: T,
-  fields: string[]
-): Partial<T> {
-  if (!fields.length) {
-    return obj;
-  }
-  const result: Partial<T> = {};
-  for (const field of fields) {
-    if (field in obj) {
-      result[field as keyof T] = obj[field as keyof T];
+// Every filter becomes a hard requirement, checked one at a time so that
+// near misses can report the requirement they fail
+function buildRequirements(
+  options: ModelFilters,
+  usage: TokenUsage,
+  maxCost: number | undefined
+): RequirementConstraint[] {
+  const constraints: RequirementConstraint[] = [];
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined) {
+      continue;
     }
+    // Match the whole catalog once rather than once per candidate
+    const matching = new Set(filterModels(modelsData, { [key]: value }));
+    constraints.push({
+      name: key,
+      requirement: `${key}=${value}`,
+      test: (m) => matching.has(m),
+    });
+  }
+
+  const tokens = totalTokens(usage);
+  if (tokens > 0) {
+    constraints.push({
+      name: 'context',
+      requirement: `context window of at least ${tokens} tokens`,
+      test: (m) => (m.limit?.context ?? 0) >= tokens,
+    });
+  }
+
+  if (maxCost !== undefined) {
+    constraints.push({
+      name: 'max_cost',
+      requirement: `at most $${maxCost} per request`,
+      test: (m) => {
+        const estimate = estimateCost(m, usage);
+        return estimate !== undefined && estimate.total <= maxCost;
+      },
+    });
   }
-  return result;
+
+  return constraints;
 }
 
 const app = new Hono();
@@ -367,6 +302,10 @@ app.get('/v1/admin/reload', (c) => {
   return c.text('ok'); // In Cloudflare Workers, data is static
 });
 
+app.get('/v1/admin/data-report', (c) => {
+  return c.json(dataReport);
+});
+
 // Health check endpoint for MCP server scanning
 app.get('/health', (c) => {
   return c.json({
@@ -374,6 +313,8 @@ app.get('/health', (c) => {
     timestamp: new Date().toISOString(),
     server: 'modelsplus',
     version: '0.0.1',
+    // Changes whenever the catalog does, for clients caching derived data
+    data_version: dataVersion.hash,
   });
 });
 
@@ -382,243 +323,325 @@ app.get('/.well-known/mcp', (c) => {
   return c.json({
     name: 'modelsplus',
     version: '0.0.1',
-    protocolVersion: '2024-11-05',
-    capabilities: {
-      tools: {},
-    },
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: MCP_CAPABILITIES,
+    transport: 'streamable-http',
     endpoints: {
       mcp: '/mcp',
       http: '/mcp/http',
+      session: '/mcp/session',
     },
   });
 });
 
-app.get('/v1/models', (c) => {
-  // Parse query parameters
-  const options: QueryOptions = {
-    q: c.req.query('q'),
-    provider: c.req.query('provider'),
-    tool_call: c.req.query('tool_call'),
-    attachment: c.req.query('attachment'),
-    reasoning: c.req.query('reasoning'),
-    temperature: c.req.query('temperature'),
-    open_weights: c.req.query('open_weights'),
-    min_input_cost: c.req.query('min_input_cost'),
-    max_input_cost: c.req.query('max_input_cost'),
-    min_output_cost: c.req.query('min_output_cost'),
-    max_output_cost: c.req.query('max_output_cost'),
-    min_context: c.req.query('min_context'),
-    max_context: c.req.query('max_context'),
-    min_output_limit: c.req.query('min_output_limit'),
-    max_output_limit: c.req.query('max_output_limit'),
-    modalities: c.req.query('modalities'),
-    release_after: c.req.query('release_after'),
-    release_before: c.req.query('release_before'),
-    updated_after: c.req.query('updated_after'),
-    updated_before: c.req.query('updated_before'),
-    sort: c.req.query('sort') || 'name',
-    order: c.req.query('order') || 'asc',
-    limit: c.req.query('limit'),
-    offset: c.req.query('offset'),
-    fields: c.req.query('fields'),
-  };
-
-  // Filter models
-  let filteredModels = filterModels(modelsData, options);
+// OpenAPI document describing every REST endpoint
+app.get('/openapi.json', (c) => {
+  return c.json(buildOpenAPIDocument(new URL(c.req.url).origin));
+});
 
-  // Sort models
-  filteredModels = sortModels(filteredModels, options.sort, options.order);
+// Interactive API reference rendered from /openapi.json
+app.get('/docs', (c) => {
+  return c.html(renderDocsPage('/openapi.json'));
+});
 
-  // Apply pagination
-  const limit = options.limit ? Number.parseInt(options.limit, 10) : undefined;
-  const offset = options.offset ? Number.parseInt(options.offset, 10) : 0;
+app.get('/v1/models', validateQuery(ROUTES.models), cacheableList, (c) => {
+  const query = parseModelQuery(c.req.query());
+  return respondWithPage(c, () => queryModels(modelsData, query));
+});
 
-  if (offset && offset > 0) {
-    filteredModels = filteredModels.slice(offset);
+// Count endpoints (must be defined before :id route)
+app.get(
+  '/v1/models/count',
+  validateQuery(ROUTES.modelsCount),
+  cacheable,
+  (c) => {
+    const count = filterModels(modelsData, readFilterOptions(c)).length;
+    return c.json({ count });
   }
+);
 
-  if (limit && limit > 0) {
-    filteredModels = filteredModels.slice(0, limit);
+// Ids of models in vendor subdirectories contain a slash (e.g.
+// openrouter:openai/gpt-4o), so `:id` spans path segments; the connection
+// route must come first or its suffix would be read as part of the id
+app.get('/v1/models/:id{.+}/connection', cacheable, (c) => {
+  const m = modelsData.find((x: Model) => x.id === c.req.param('id'));
+  if (!m) {
+    return c.notFound();
   }
+  const provider = providersData.find((p) => p.id === m.provider);
+  return c.json(resolveConnection(m, provider));
+});
 
-  // Apply field selection
-  let result: Model[] | Partial<Model>[] = filteredModels;
-  if (options.fields) {
-    const fields = options.fields.split(',').map((f) => f.trim());
-    result = filteredModels.map((model) => selectFields(model, fields));
-  }
+app.get('/v1/models/:id{.+}', cacheable, (c) => {
+  const m = modelsData.find((x: Model) => x.id === c.req.param('id'));
+  return m ? c.json(m) : c.notFound();
+});
 
-  return c.json(result);
+// Catalog changes recorded by generate.ts, newest first
+app.get('/v1/changes', validateQuery(ROUTES.changes), cacheable, (c) => {
+  const since = c.req.query('since');
+  const type = c.req.query('type');
+  const provider = c.req.query('provider');
+  const types = type?.split(',').map((t) => t.trim());
+
+  const changes = changelogData
+    .filter(
+      (change) =>
+        (!since || change.date >= since) &&
+        (!types || types.includes(change.type)) &&
+        (!provider || change.provider === provider)
+    )
+    .reverse();
+
+  return c.json({ since: since ?? null, count: changes.length, changes });
 });
 
-// Count endpoints (must be defined before :id route)
-app.get('/v1/models/count', (c) => {
-  const options: QueryOptions = {
-    q: c.req.query('q'),
-    provider: c.req.query('provider'),
-    tool_call: c.req.query('tool_call'),
-    attachment: c.req.query('attachment'),
-    reasoning: c.req.query('reasoning'),
-    temperature: c.req.query('temperature'),
-    open_weights: c.req.query('open_weights'),
-    min_input_cost: c.req.query('min_input_cost'),
-    max_input_cost: c.req.query('max_input_cost'),
-    min_output_cost: c.req.query('min_output_cost'),
-    max_output_cost: c.req.query('max_output_cost'),
-    min_context: c.req.query('min_context'),
-    max_context: c.req.query('max_context'),
-    min_output_limit: c.req.query('min_output_limit'),
-    max_output_limit: c.req.query('max_output_limit'),
-    modalities: c.req.query('modalities'),
-    release_after: c.req.query('release_after'),
-    release_before: c.req.query('release_before'),
-    updated_after: c.req.query('updated_after'),
-    updated_before: c.req.query('updated_before'),
-  };
+// Feed entries for the requested provider/family, newest first
+function readFeedChanges(c: Context): CatalogChange[] {
+  const provider = c.req.query('provider');
+  const family = c.req.query('family');
+  const familyOf = (change: CatalogChange) =>
+    change.family ??
+    (modelsData.find((m) => m.id === change.model)?.family as
+      | string
+      | undefined);
+
+  return feedChanges(
+    changelogData.filter(
+      (change) =>
+        (!provider || change.provider === provider) &&
+        (!family || familyOf(change) === family)
+    )
+  );
+}
 
-  const count = filterModels(modelsData, options).length;
-  return c.json({ count });
-});
+function feedTitle(c: Context): string {
+  const scope = [c.req.query('provider'), c.req.query('family')].filter(
+    Boolean
+  );
+  return scope.length
+    ? `Models PLUS catalog changes: ${scope.join(', ')}`
+    : 'Models PLUS catalog changes';
+}
 
-app.get('/v1/models/:id', (c) => {
-  const m = modelsData.find((x: Model) => x.id === c.req.param('id'));
-  return m ? c.json(m) : c.notFound();
+app.get('/v1/feed.atom', validateQuery(ROUTES.feedAtom), cacheable, (c) => {
+  const xml = renderAtom(readFeedChanges(c), {
+    title: feedTitle(c),
+    selfUrl: c.req.url,
+    origin: new URL(c.req.url).origin,
+  });
+  return c.body(xml, HTTP_OK, {
+    'Content-Type': 'application/atom+xml; charset=utf-8',
+  });
 });
 
-app.get('/v1/providers', (c) => {
-  const q = c.req.query('q');
-  const env = c.req.query('env');
-  const npm = c.req.query('npm');
-  const limit = c.req.query('limit');
-  const offset = c.req.query('offset');
+app.get('/v1/feed.rss', validateQuery(ROUTES.feedRss), cacheable, (c) => {
+  const xml = renderRss(readFeedChanges(c), {
+    title: feedTitle(c),
+    selfUrl: c.req.url,
+    origin: new URL(c.req.url).origin,
+  });
+  return c.body(xml, HTTP_OK, {
+    'Content-Type': 'application/rss+xml; charset=utf-8',
+  });
+});
 
-  let filteredProviders = providersData;
+// Model families with how many models and providers offer them
+app.get('/v1/families', cacheable, (c) => {
+  return c.json(summarizeFamilies(modelGroups));
+});
 
-  // Text search in name
-  if (q) {
-    const query = q.toLowerCase();
-    filteredProviders = filteredProviders.filter(
-      (p: Provider) =>
-        p.name.toLowerCase().includes(query) ||
-        p.id.toLowerCase().includes(query)
+// Every offering of each model in a family, cheapest first
+app.get('/v1/families/:family', cacheable, (c) => {
+  const family = c.req.param('family');
+  if (!isModelFamily(family)) {
+    return c.json(
+      { error: `Unknown model family: ${family}`, status: HTTP_NOT_FOUND },
+      HTTP_NOT_FOUND
     );
   }
 
-  // Filter by environment variable
-  if (env) {
-    filteredProviders = filteredProviders.filter((p: Provider) =>
-      p.env.some((e) => e.toLowerCase().includes(env.toLowerCase()))
+  const groups = modelGroups
+    .filter((g) => g.family === family)
+    .sort(
+      (a, b) =>
+        b.providers.length - a.providers.length || a.key.localeCompare(b.key)
+    );
+
+  return c.json({ family, groups });
+});
+
+// Side-by-side comparison of selected models
+app.get('/v1/compare', validateQuery(ROUTES.compare), cacheable, (c) => {
+  const ids = parseCompareIds(c.req.query('ids'));
+  if (ids.length < 2 || ids.length > MAX_COMPARE_MODELS) {
+    return c.json(
+      {
+        error: `Provide between 2 and ${MAX_COMPARE_MODELS} comma-separated model ids in 'ids'`,
+        status: HTTP_BAD_REQUEST,
+      },
+      HTTP_BAD_REQUEST
     );
   }
 
-  // Filter by npm package
-  if (npm) {
-    filteredProviders = filteredProviders.filter((p: Provider) =>
-      p.npm?.toLowerCase().includes(npm.toLowerCase())
+  const models = ids
+    .map((id) => modelsData.find((m: Model) => m.id === id))
+    .filter((m): m is Model => m !== undefined);
+  if (models.length !== ids.length) {
+    const missing = ids.filter((id) => !models.some((m) => m.id === id));
+    return c.json(
+      {
+        error: `Models not found: ${missing.join(', ')}`,
+        status: HTTP_NOT_FOUND,
+      },
+      HTTP_NOT_FOUND
     );
   }
 
-  // Apply pagination
-  const limitNum = limit ? Number.parseInt(limit, 10) : undefined;
-  const offsetNum = offset ? Number.parseInt(offset, 10) : 0;
+  return c.json(compareModels(models));
+});
 
-  if (offsetNum && offsetNum > 0) {
-    filteredProviders = filteredProviders.slice(offsetNum);
+// Ranked shortlist for a task description, with near misses
+app.get('/v1/recommend', validateQuery(ROUTES.recommend), cacheable, (c) => {
+  const usage = readTokenUsage(c);
+  const maxCost = parseNumber(c.req.query('max_cost'));
+  if (
+    maxCost !== undefined &&
+    !USAGE_FIELDS.some((field) => usage[field] > 0)
+  ) {
+    return c.json(
+      {
+        error: 'max_cost requires at least one *_tokens count to price',
+        status: HTTP_BAD_REQUEST,
+      },
+      HTTP_BAD_REQUEST
+    );
   }
 
-  if (limitNum && limitNum > 0) {
-    filteredProviders = filteredProviders.slice(0, limitNum);
-  }
+  const constraints = buildRequirements(readFilterOptions(c), usage, maxCost);
+  const weights = readRecommendWeights(c);
 
-  return c.json(filteredProviders);
-});
+  // Newest first so that equal scores favour recent models
+  const candidates = sortModels(modelsData, 'release_date', 'desc');
+  const result = recommendModels(candidates, constraints, usage, weights);
 
-app.get('/v1/providers/count', (c) => {
-  const q = c.req.query('q');
-  const env = c.req.query('env');
-  const npm = c.req.query('npm');
+  const limit = Number.parseInt(c.req.query('limit') || '10', 10);
+  const nearMissLimit = Number.parseInt(
+    c.req.query('near_miss_limit') || '5',
+    10
+  );
 
-  let filteredProviders = providersData;
+  return c.json({
+    requirements: constraints.map(({ name, requirement }) => ({
+      constraint: name,
+      requirement,
+    })),
+    weights,
+    count: result.count,
+    recommendations: result.recommendations.slice(0, Math.max(limit, 0)),
+    near_misses: result.near_misses.slice(0, Math.max(nearMissLimit, 0)),
+  });
+});
 
-  // Text search in name
-  if (q) {
-    const query = q.toLowerCase();
-    filteredProviders = filteredProviders.filter(
-      (p: Provider) =>
-        p.name.toLowerCase().includes(query) ||
-        p.id.toLowerCase().includes(query)
+// Cost estimate for a token workload, ranked across matching models
+app.get('/v1/estimate', validateQuery(ROUTES.estimate), cacheable, (c) => {
+  const usage = readTokenUsage(c);
+  if (!USAGE_FIELDS.some((field) => usage[field] > 0)) {
+    return c.json(
+      {
+        error: `At least one token count is required: ${USAGE_FIELDS.map((f) => `${f}_tokens`).join(', ')}`,
+        status: HTTP_BAD_REQUEST,
+      },
+      HTTP_BAD_REQUEST
     );
   }
 
-  // Filter by environment variable
-  if (env) {
-    filteredProviders = filteredProviders.filter((p: Provider) =>
-      p.env.some((e) => e.toLowerCase().includes(env.toLowerCase()))
-    );
+  const models = filterModels(modelsData, readFilterOptions(c));
+  let estimates = estimateModels(models, usage, c.req.query('order') || 'asc');
+  const count = estimates.length;
+
+  // Apply pagination
+  const limit = c.req.query('limit');
+  const offset = c.req.query('offset');
+  const limitNum = limit ? Number.parseInt(limit, 10) : undefined;
+  const offsetNum = offset ? Number.parseInt(offset, 10) : 0;
+
+  if (offsetNum && offsetNum > 0) {
+    estimates = estimates.slice(offsetNum);
   }
 
-  // Filter by npm package
-  if (npm) {
-    filteredProviders = filteredProviders.filter((p: Provider) =>
-      p.npm?.toLowerCase().includes(npm.toLowerCase())
-    );
+  if (limitNum && limitNum > 0) {
+    estimates = estimates.slice(0, limitNum);
   }
 
-  return c.json({ count: filteredProviders.length });
+  return c.json({ usage, count, estimates });
 });
 
-// Search suggestions
-app.get('/v1/search/suggestions', (c) => {
-  const q = c.req.query('q')?.toLowerCase();
-  const limit = Number.parseInt(c.req.query('limit') || '10', 10);
-
-  if (!q || q.length < 2) {
-    return c.json({ suggestions: [] });
+app.get(
+  '/v1/providers',
+  validateQuery(ROUTES.providers),
+  cacheableList,
+  (c) => {
+    const query = parseProviderQuery(c.req.query());
+    return respondWithPage(c, () => queryProviders(providersData, query));
   }
+);
 
-  const suggestions = new Set<string>();
-
-  // Model name suggestions
-  for (const model of modelsData) {
-    if (model.name?.toLowerCase().includes(q)) {
-      suggestions.add(model.name);
-    }
-    if (model.id.toLowerCase().includes(q)) {
-      suggestions.add(model.id);
-    }
+app.get(
+  '/v1/providers/count',
+  validateQuery(ROUTES.providersCount),
+  cacheable,
+  (c) => {
+    const query = parseProviderQuery(c.req.query());
+    return c.json({ count: filterProviders(providersData, query).length });
   }
+);
 
-  // Provider name suggestions
-  for (const provider of providersData) {
-    if (provider.name.toLowerCase().includes(q)) {
-      suggestions.add(provider.name);
+// Search suggestions
+app.get(
+  '/v1/search/suggestions',
+  validateQuery(ROUTES.suggestions),
+  cacheable,
+  (c) => {
+    const q = c.req.query('q');
+    const limit = Number.parseInt(c.req.query('limit') || '10', 10);
+
+    if (!q || q.length < 2) {
+      return c.json({ suggestions: [] });
     }
+
+    return c.json({ suggestions: suggest(suggestionIndex, q, limit).values });
   }
+);
 
-  const result = Array.from(suggestions).slice(0, limit);
-  return c.json({ suggestions: result });
+// GraphQL over the same catalog; GET requests are cacheable like the REST routes
+app.get('/graphql', cacheable, (c) => {
+  return handleGraphQLRequest(c.req.raw, graphqlSchema);
 });
 
-// MCP HTTP endpoint - Regular HTTP for JSON-RPC
-app.get('/mcp/http', (c) => {
-  return handleMCPRequest(c.req.raw);
+app.post('/graphql', (c) => {
+  return handleGraphQLRequest(c.req.raw, graphqlSchema);
 });
 
-app.post('/mcp/http', (c) => {
-  return handleMCPRequest(c.req.raw);
+// Schema definition language for the GraphQL endpoint
+app.get('/graphql/schema', cacheable, (c) => {
+  return c.text(printSchema(graphqlSchema));
 });
 
-// MCP endpoint - Combined HTTP endpoint for both GET and POST
-app.get('/mcp', (c) => {
-  return handleMCPStream(c.req.raw);
+// MCP Streamable HTTP endpoint. Stateless, answering POSTs with plain JSON
+// bodies, so it works whichever instance serves each request; /mcp/http is
+// the same endpoint under its older path
+app.on(['GET', 'POST', 'DELETE'], ['/mcp', '/mcp/http'], (c) => {
+  return handleStatelessMCPRequest(c.req.raw);
 });
 
-app.post('/mcp', (c) => {
+// Variant with in-memory sessions, answering POSTs with SSE streams
+app.on(['GET', 'POST', 'DELETE'], '/mcp/session', (c) => {
   return handleMCPRequest(c.req.raw);
 });
 
 // MCP CORS preflight
-app.options('/mcp/http', (_c) => {
+app.options('/mcp/*', (_c) => {
   return handleMCPOptions();
 });
 
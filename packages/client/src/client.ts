@@ -0,0 +1,302 @@
+import type { ModelConnection } from '@modelsplus/shared/connection';
+import {
+  type ModelFilters,
+  type ModelQuery,
+  type ProviderQuery,
+  toQueryParams,
+} from '@modelsplus/shared/query';
+import type { Model, Provider } from '@modelsplus/shared/types';
+
+export const DEFAULT_BASE_URL = 'https://modelsplus.quivr.tech';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+// The catalog only changes on deploy, so a minute of staleness is harmless
+const DEFAULT_CACHE_TTL_MS = 60_000;
+// Distinct URLs kept; a long-running process sees arbitrarily many queries
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+const TRAILING_SLASHES = /\/+$/;
+
+const HTTP_NOT_MODIFIED = 304;
+const HTTP_NOT_FOUND = 404;
+const HTTP_TOO_MANY_REQUESTS = 429;
+const HTTP_SERVER_ERROR = 500;
+
+// Response shape of list endpoints with `envelope=true`
+export type Page<T> = {
+  data: T[];
+  total: number;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+};
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export type ClientOptions = {
+  baseUrl?: string;
+  // Per attempt, in milliseconds
+  timeoutMs?: number;
+  // Extra attempts after network errors, timeouts, 429 and 5xx responses
+  retries?: number;
+  // Delay before the first retry, doubled for each further retry
+  retryDelayMs?: number;
+  // How long successful responses are cached in memory; 0 disables caching.
+  // Expired entries are revalidated with If-None-Match rather than refetched.
+  cacheTtlMs?: number;
+  // Most responses cached at once; the least recently used are dropped first
+  cacheMaxEntries?: number;
+  headers?: Record<string, string>;
+  // Custom fetch implementation, e.g. for testing or proxies
+  fetch?: FetchLike;
+};
+
+export class ModelsPlusError extends Error {
+  readonly url: string;
+  // Undefined for network errors, timeouts and unreadable responses
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(
+    message: string,
+    details: { url: string; status?: number; body?: unknown }
+  ) {
+    super(message);
+    this.name = 'ModelsPlusError';
+    this.url = details.url;
+    this.status = details.status;
+    this.body = details.body;
+  }
+}
+
+// `data` is undefined when the server answered 304 Not Modified
+type Success = { data?: unknown; etag?: string };
+
+type Attempt =
+  | ({ ok: true } & Success)
+  | { ok: false; error: ModelsPlusError; retryable: boolean };
+
+type CacheEntry = { expires: number; data: unknown; etag?: string };
+
+function isRetryable(status: number): boolean {
+  return status === HTTP_TOO_MANY_REQUESTS || status >= HTTP_SERVER_ERROR;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (_error) {
+    return text;
+  }
+}
+
+// The API reports failures as `{ error, status }`
+function errorMessage(response: Response, body: unknown): string {
+  if (typeof body === 'object' && body !== null && 'error' in body) {
+    return String((body as { error: unknown }).error);
+  }
+  return `API request failed: ${response.status} ${response.statusText}`;
+}
+
+export class ModelsPlusClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly cacheMaxEntries: number;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: FetchLike;
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(options: ClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(
+      TRAILING_SLASHES,
+      ''
+    );
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retries = Math.max(options.retries ?? DEFAULT_RETRIES, 0);
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.cacheMaxEntries = Math.max(
+      options.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+      0
+    );
+    this.headers = { Accept: 'application/json', ...options.headers };
+    this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+  }
+
+  readonly models = {
+    list: (query: ModelQuery = {}): Promise<Partial<Model>[]> =>
+      this.get('/v1/models', toQueryParams(query)),
+
+    // One page with totals; pass `next_cursor` back as `cursor` to continue
+    page: (query: ModelQuery = {}): Promise<Page<Partial<Model>>> =>
+      this.get('/v1/models', { ...toQueryParams(query), envelope: 'true' }),
+
+    // Resolves to null when no model has this id
+    get: (id: string): Promise<Model | null> =>
+      this.getOrNull(`/v1/models/${encodeURIComponent(id)}`),
+
+    // SDK package, base URL, API shape and env vars to call the model with;
+    // null when no model has this id
+    connection: (id: string): Promise<ModelConnection | null> =>
+      this.getOrNull(`/v1/models/${encodeURIComponent(id)}/connection`),
+
+    count: async (filters: ModelFilters = {}): Promise<number> => {
+      const data = await this.get<{ count: number }>(
+        '/v1/models/count',
+        toQueryParams(filters)
+      );
+      return data.count;
+    },
+  };
+
+  readonly providers = {
+    list: (query: ProviderQuery = {}): Promise<Provider[]> =>
+      this.get('/v1/providers', toQueryParams(query)),
+
+    page: (query: ProviderQuery = {}): Promise<Page<Provider>> =>
+      this.get('/v1/providers', { ...toQueryParams(query), envelope: 'true' }),
+
+    // Resolves to null when no provider has this id
+    get: async (id: string): Promise<Provider | null> => {
+      const providers = await this.providers.list();
+      return providers.find((p) => p.id === id) ?? null;
+    },
+
+    count: async (query: ProviderQuery = {}): Promise<number> => {
+      const data = await this.get<{ count: number }>(
+        '/v1/providers/count',
+        toQueryParams(query)
+      );
+      return data.count;
+    },
+  };
+
+  readonly search = {
+    suggestions: async (q: string, limit?: number): Promise<string[]> => {
+      const data = await this.get<{ suggestions: string[] }>(
+        '/v1/search/suggestions',
+        toQueryParams({ q, limit })
+      );
+      return data.suggestions;
+    },
+  };
+
+  // GET any endpoint, for routes without a typed method
+  async get<T>(path: string, params: Record<string, string> = {}): Promise<T> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+    const key = url.toString();
+
+    const cached = this.cache.get(key);
+    // Maps iterate in insertion order, so re-inserting keeps the least
+    // recently used entry first
+    this.cache.delete(key);
+    if (cached && cached.expires > Date.now()) {
+      this.cache.set(key, cached);
+      return cached.data as T;
+    }
+
+    // A failed revalidation leaves the entry out: the next request fetches
+    // afresh instead of revalidating data that may no longer exist
+    const result = await this.fetchWithRetry(key, cached?.etag);
+    const data = result.data === undefined ? cached?.data : result.data;
+    this.remember(key, {
+      expires: Date.now() + this.cacheTtlMs,
+      data,
+      etag: result.etag ?? cached?.etag,
+    });
+    return data as T;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private remember(key: string, entry: CacheEntry) {
+    if (this.cacheTtlMs <= 0 || this.cacheMaxEntries === 0) {
+      return;
+    }
+    this.cache.set(key, entry);
+    for (const oldest of this.cache.keys()) {
+      if (this.cache.size <= this.cacheMaxEntries) {
+        break;
+      }
+      this.cache.delete(oldest);
+    }
+  }
+
+  private async getOrNull<T>(path: string): Promise<T | null> {
+    try {
+      return await this.get<T>(path);
+    } catch (error) {
+      if (error instanceof ModelsPlusError && error.status === HTTP_NOT_FOUND) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async fetchWithRetry(url: string, etag?: string): Promise<Success> {
+    let attempt = await this.attempt(url, etag);
+    for (let retry = 0; !attempt.ok && attempt.retryable; retry++) {
+      if (retry >= this.retries) {
+        break;
+      }
+      await sleep(this.retryDelayMs * 2 ** retry);
+      attempt = await this.attempt(url, etag);
+    }
+    if (!attempt.ok) {
+      throw attempt.error;
+    }
+    return attempt;
+  }
+
+  private async attempt(url: string, etag?: string): Promise<Attempt> {
+    try {
+      const response = await this.fetchImpl(url, {
+        headers: etag
+          ? { ...this.headers, 'If-None-Match': etag }
+          : this.headers,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      const responseETag = response.headers.get('ETag') ?? undefined;
+      if (response.status === HTTP_NOT_MODIFIED) {
+        return { ok: true, etag: responseETag };
+      }
+      if (response.ok) {
+        return { ok: true, data: await response.json(), etag: responseETag };
+      }
+
+      const body = await readBody(response);
+      return {
+        ok: false,
+        error: new ModelsPlusError(errorMessage(response, body), {
+          url,
+          status: response.status,
+          body,
+        }),
+        retryable: isRetryable(response.status),
+      };
+    } catch (error) {
+      // Network errors and timeouts, also while reading the body, and
+      // success responses whose body isn't JSON
+      const reason = error instanceof Error ? error.message : String(error);
+      return {
+        ok: false,
+        error: new ModelsPlusError(`API request failed: ${reason}`, { url }),
+        retryable: true,
+      };
+    }
+  }
+}
@@ -0,0 +1,27 @@
+// Barrel file exports - public API surface for consumers
+
+export type {
+  ApiShape,
+  ModelConnection,
+} from '@modelsplus/shared/connection';
+export type {
+  ModelFilters,
+  ModelQuery,
+  ModelSortField,
+  ProviderQuery,
+  SortOrder,
+} from '@modelsplus/shared/query';
+// Values accepted by the `sort` query option
+/* biome-ignore lint/performance/noBarrelFile: Public API re-export for consumers */
+export {
+  MODEL_SORT_FIELDS,
+  PROVIDER_SORT_FIELDS,
+} from '@modelsplus/shared/query';
+export type {
+  Model,
+  ModelCost,
+  ModelProviderOverride,
+  Provider,
+} from '@modelsplus/shared/types';
+export type { ClientOptions, FetchLike, Page } from './client';
+export { DEFAULT_BASE_URL, ModelsPlusClient, ModelsPlusError } from './client';
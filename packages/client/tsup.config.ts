@@ -0,0 +1,15 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: {
+    index: 'src/index.ts',
+  },
+  format: ['esm'],
+  dts: true,
+  clean: true,
+  outDir: 'dist',
+  target: 'node18',
+  sourcemap: true,
+  splitting: false,
+  minify: false,
+});
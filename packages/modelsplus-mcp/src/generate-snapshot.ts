@@ -0,0 +1,48 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadDB } from '@modelsplus/shared/loader';
+import { formatIssues } from '@modelsplus/shared/validate';
+
+// Bundles the models.dev catalog into src/snapshot.json, which offline mode
+// reads. The vendor data is loaded with the same loader as the API's
+// generate.ts, but leniently, and without touching the changelog and
+// snapshot that the upstream sync workflow commits in packages/api/data.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const VENDOR_ROOT = path.resolve(__dirname, '../../../vendor/models.dev');
+const SNAPSHOT_PATH = path.join(__dirname, 'snapshot.json');
+// Hex digits of the content hash, as in the API's data version
+const HASH_LENGTH = 32;
+
+async function generateSnapshot() {
+  // Invalid entries are left out rather than failing the package build
+  const { models, providers, errors } = await loadDB(VENDOR_ROOT, {
+    lenient: true,
+  });
+  if (errors.length) {
+    process.stderr.write(
+      `Left invalid entries out of the snapshot:\n${formatIssues(errors)}\n`
+    );
+  }
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ models, providers }))
+    .digest('hex')
+    .slice(0, HASH_LENGTH);
+  const version = { hash, last_modified: new Date().toISOString() };
+  await fs.writeFile(
+    SNAPSHOT_PATH,
+    JSON.stringify({ version, providers, models })
+  );
+  process.stdout.write(
+    `Wrote a snapshot of ${models.length} models and ${providers.length} providers to ${path.relative(process.cwd(), SNAPSHOT_PATH)}\n`
+  );
+}
+
+generateSnapshot().catch((error: unknown) => {
+  process.stderr.write(
+    `${error instanceof Error ? error.message : String(error)}\n`
+  );
+  process.exit(1);
+});
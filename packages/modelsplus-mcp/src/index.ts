@@ -1,170 +1,568 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  CompleteRequestSchema,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  DEFAULT_BASE_URL,
+  MODEL_SORT_FIELDS,
+  type Model,
+  type ModelQuery,
+  ModelsPlusClient,
+  ModelsPlusError,
+  type Page,
+  type Provider,
+  type ProviderQuery,
+} from '@modelsplus/client';
+import {
+  compareModels,
+  MAX_COMPARE_MODELS,
+  type ModelComparison,
+} from '@modelsplus/shared/compare';
+import {
+  type CompletionCatalog,
+  CompletionError,
+  completeArgument,
+} from '@modelsplus/shared/completions';
+import {
+  continuationNote,
+  DEFAULT_MAX_TOKENS,
+  MIN_MAX_TOKENS,
+  OUTPUT_FORMATS,
+  renderModelResults,
+  renderProviderResults,
+} from '@modelsplus/shared/output';
+import {
+  getPrompt,
+  PROMPTS,
+  type PromptCatalog,
+  PromptError,
+} from '@modelsplus/shared/prompts';
+import {
+  modelCursorAfter,
+  modelKeyFields,
+  providerCursorAfter,
+  queryModels,
+  queryProviders,
+  selectFields,
+} from '@modelsplus/shared/query';
+import {
+  MODEL_URI_TEMPLATE,
+  matchesModelRef,
+  modelResource,
+  PROVIDER_URI_TEMPLATE,
+  parseResourceUri,
+  providerResource,
+  RESOURCE_MIME_TYPE,
+  type ResourceRef,
+} from '@modelsplus/shared/resources';
+import {
+  summarizeComparison,
+  summarizeModel,
+  summarizeProvider,
+} from '@modelsplus/shared/summary';
 import { z } from 'zod';
 
-// Type definitions
-type Model = {
-  id: string;
-  provider: string;
-  name?: string;
-  release_date?: string;
-  last_updated?: string;
-  attachment?: boolean;
-  reasoning?: boolean;
-  temperature?: boolean;
-  tool_call?: boolean;
-  open_weights?: boolean;
-  knowledge?: string;
-  cost?: {
-    input?: number;
-    output?: number;
-    cache_read?: number;
-    cache_write?: number;
-  };
-  limit?: {
-    context?: number;
-    output?: number;
-  };
-  modalities?: {
-    input?: string[];
-    output?: string[];
-  };
-  [key: string]: unknown;
-};
-
-type Provider = {
-  id: string;
-  name: string;
-  env: string[];
-  npm?: string;
-  api?: string;
-  doc?: string;
-  [key: string]: unknown;
-};
-
 // Constants for magic numbers
 const API_TIMEOUT_MS = 10_000;
 const DEFAULT_SEARCH_LIMIT = 50;
 const DEFAULT_PROVIDERS_LIMIT = 20;
+const HTTP_SERVER_ERROR = 500;
+// How long auto mode answers from the snapshot before retrying the API
+const REMOTE_RETRY_MS = 300_000;
 
-// API Client for internal use
-class ModelsAPI {
-  private async fetchFromAPI(
-    endpoint: string,
-    params?: Record<string, string | boolean | number>
-  ): Promise<unknown> {
-    const url = new URL(`${'https://modelsplus.quivr.tech'}${endpoint}`);
-    if (params) {
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          url.searchParams.set(key, String(value));
-        }
+const MODALITIES = ['text', 'audio', 'image', 'video', 'pdf'] as const;
+
+// remote: always query the API; offline: only read the bundled snapshot;
+// auto: query the API and fall back to the snapshot when it is unreachable
+const DATA_MODES = ['remote', 'offline', 'auto'] as const;
+
+// Written to src/snapshot.json by generate-snapshot.ts at build time
+type Snapshot = {
+  version: { hash: string; last_modified: string };
+  models: Model[];
+  providers: Provider[];
+};
+
+// Catalog reads behind the tools, resources and prompts
+type CatalogSource = {
+  // Identifies the data, e.g. to know when cached indexes are stale
+  version(): Promise<string>;
+  searchModels(query: ModelQuery): Promise<Page<Partial<Model>>>;
+  listModels(query: ModelQuery): Promise<Partial<Model>[]>;
+  getModel(id: string): Promise<Model | null>;
+  searchProviders(query: ProviderQuery): Promise<Page<Provider>>;
+  listProviders(query?: ProviderQuery): Promise<Provider[]>;
+  getProvider(id: string): Promise<Provider | null>;
+  compareModels(ids: string[]): Promise<ModelComparison>;
+};
+
+function remoteSource(client: ModelsPlusClient): CatalogSource {
+  return {
+    // The client caches /health for a minute, which bounds how often a
+    // changed catalog is noticed and how often the version is fetched
+    version: () =>
+      client
+        .get<{ data_version: string }>('/health')
+        .then((health) => health.data_version),
+    searchModels: (query) => client.models.page(query),
+    listModels: (query) => client.models.list(query),
+    getModel: (id) => client.models.get(id),
+    searchProviders: (query) => client.providers.page(query),
+    listProviders: (query) => client.providers.list(query),
+    getProvider: (id) => client.providers.get(id),
+    compareModels: (ids) => client.get('/v1/compare', { ids: ids.join(',') }),
+  };
+}
+
+// Answers the way the API does, from the bundled snapshot
+function snapshotSource({
+  version,
+  models,
+  providers,
+}: Snapshot): CatalogSource {
+  const findModel = (id: string) => models.find((m) => m.id === id) ?? null;
+  return {
+    version: () => Promise.resolve(version.hash),
+    searchModels: (query) => {
+      const { items, ...page } = queryModels(models, query);
+      return Promise.resolve({ data: items, ...page });
+    },
+    listModels: (query) => Promise.resolve(queryModels(models, query).items),
+    getModel: (id) => Promise.resolve(findModel(id)),
+    searchProviders: (query) => {
+      const { items, ...page } = queryProviders(providers, query);
+      return Promise.resolve({ data: items, ...page });
+    },
+    listProviders: (query = {}) =>
+      Promise.resolve(queryProviders(providers, query).items),
+    getProvider: (id) =>
+      Promise.resolve(providers.find((p) => p.id === id) ?? null),
+    compareModels: (ids) => {
+      const missing = ids.filter((id) => !findModel(id));
+      if (missing.length) {
+        return Promise.reject(
+          new Error(`Models not found: ${missing.join(', ')}`)
+        );
       }
-    }
+      return Promise.resolve(compareModels(ids.map(findModel) as Model[]));
+    },
+  };
+}
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        Accept: 'application/json',
-        'User-Agent': 'modelsplus-mcp/0.1.0',
-      },
-      signal: AbortSignal.timeout(API_TIMEOUT_MS),
-    });
+let snapshot: Promise<Snapshot> | undefined;
 
-    if (!response.ok) {
-      throw new Error(
-        `API request failed: ${response.status} ${response.statusText}`
-      );
-    }
+// Imported on first use, so remote mode never parses the bundled data
+function loadSnapshot(): Promise<Snapshot> {
+  snapshot ??= import('./snapshot.json', { with: { type: 'json' } }).then(
+    (module) => module.default as unknown as Snapshot
+  );
+  return snapshot;
+}
+
+// Network errors, timeouts and 5xx responses, but not e.g. a 404
+function isUnavailable(error: unknown): boolean {
+  return (
+    error instanceof ModelsPlusError &&
+    (error.status === undefined || error.status >= HTTP_SERVER_ERROR)
+  );
+}
 
-    return response.json();
+// API Client for internal use
+class ModelsAPI {
+  private readonly config: Config;
+  private readonly remote: CatalogSource;
+  private offline?: Promise<CatalogSource>;
+  // When auto mode last fell back to the snapshot, until when to stay there
+  private readonly fallback = { until: 0 };
+
+  constructor(config: Config) {
+    this.config = config;
+    this.remote = remoteSource(
+      new ModelsPlusClient({
+        baseUrl: config.baseUrl,
+        timeoutMs: config.apiTimeout,
+        headers: { 'User-Agent': 'modelsplus-mcp/0.1.0' },
+      })
+    );
   }
 
-  async searchModels(options: {
-    q?: string;
-    provider?: string;
-    tool_call?: boolean;
-    reasoning?: boolean;
-    limit?: number;
-    offset?: number;
-  }): Promise<Model[]> {
-    const params: Record<string, string | boolean | number> = {};
-
-    if (options.q) {
-      params.q = options.q;
-    }
-    if (options.provider) {
-      params.provider = options.provider;
-    }
-    if (options.tool_call !== undefined) {
-      params.tool_call = options.tool_call;
-    }
-    if (options.reasoning !== undefined) {
-      params.reasoning = options.reasoning;
-    }
-    if (options.limit !== undefined) {
-      params.limit = options.limit;
-    }
-    if (options.offset !== undefined) {
-      params.offset = options.offset;
-    }
+  private snapshot(): Promise<CatalogSource> {
+    this.offline ??= loadSnapshot().then(snapshotSource);
+    return this.offline;
+  }
 
-    const data = await this.fetchFromAPI('/v1/models', params);
-    return data as Model[];
+  private log(message: string): void {
+    if (this.config.debug) {
+      process.stderr.write(`[modelsplus-mcp] ${message}\n`);
+    }
   }
 
-  async getModel(id: string): Promise<Model | null> {
+  private async read<T>(fn: (source: CatalogSource) => Promise<T>): Promise<T> {
+    const { mode } = this.config;
+    if (
+      mode === 'offline' ||
+      (mode === 'auto' && Date.now() < this.fallback.until)
+    ) {
+      return fn(await this.snapshot());
+    }
     try {
-      const data = await this.fetchFromAPI(`/v1/models/${id}`);
-      return data as Model | null;
+      return await fn(this.remote);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('404')) {
-        return null;
+      if (mode === 'remote' || !isUnavailable(error)) {
+        throw error;
       }
-      throw error;
+      this.fallback.until = Date.now() + REMOTE_RETRY_MS;
+      this.log(
+        `${(error as Error).message}; using the bundled snapshot until ${new Date(this.fallback.until).toISOString()}`
+      );
+      return fn(await this.snapshot());
     }
   }
 
-  async searchProviders(options: {
-    q?: string;
-    env?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Provider[]> {
-    const params: Record<string, string | boolean | number> = {};
-
-    if (options.q) {
-      params.q = options.q;
-    }
-    if (options.env) {
-      params.env = options.env;
-    }
-    if (options.limit !== undefined) {
-      params.limit = options.limit;
-    }
-    if (options.offset !== undefined) {
-      params.offset = options.offset;
+  // Where the data comes from, for the info resource
+  describeSource(): string {
+    switch (this.config.mode) {
+      case 'remote':
+        return this.config.baseUrl;
+      case 'offline':
+        return 'Snapshot bundled with this package (offline mode)';
+      default:
+        return `${this.config.baseUrl}, falling back to the snapshot bundled with this package`;
     }
+  }
 
-    const data = await this.fetchFromAPI('/v1/providers', params);
-    return data as Provider[];
+  searchModels(query: ModelQuery): Promise<Page<Partial<Model>>> {
+    return this.read((source) => source.searchModels(query));
   }
 
-  async getProviders(): Promise<Provider[]> {
-    const data = await this.fetchFromAPI('/v1/providers');
-    return data as Provider[];
+  getModel(id: string): Promise<Model | null> {
+    return this.read((source) => source.getModel(id));
   }
 
-  async getProvider(id: string): Promise<Provider | null> {
-    try {
-      const providers = await this.getProviders();
-      return providers.find((p: Provider) => p.id === id) || null;
-    } catch (_error) {
-      return null;
-    }
+  searchProviders(query: ProviderQuery): Promise<Page<Provider>> {
+    return this.read((source) => source.searchProviders(query));
+  }
+
+  getProviders(): Promise<Provider[]> {
+    return this.read((source) => source.listProviders());
+  }
+
+  compareModels(ids: string[]): Promise<ModelComparison> {
+    return this.read((source) => source.compareModels(ids));
+  }
+
+  getProvider(id: string): Promise<Provider | null> {
+    return this.read((source) => source.getProvider(id));
+  }
+
+  // Just enough of every model to list it as a resource
+  async listModelKeys(): Promise<Pick<Model, 'id' | 'provider' | 'name'>[]> {
+    const models = await this.read((source) =>
+      source.listModels({ fields: ['id', 'provider', 'name'] })
+    );
+    return models as Pick<Model, 'id' | 'provider' | 'name'>[];
+  }
+
+  async getModelByRef(ref: {
+    provider: string;
+    name: string;
+  }): Promise<Model | null> {
+    const model = await this.getModel(`${ref.provider}:${ref.name}`);
+    return model && matchesModelRef(model, ref) ? model : null;
+  }
+
+  // Catalog reads for the prompts
+  readonly catalog: PromptCatalog = {
+    models: (query) => this.read((source) => source.listModels(query)),
+    model: (id) => this.getModel(id),
+  };
+
+  // ... and for argument completion
+  readonly completions: CompletionCatalog = {
+    version: () => this.read((source) => source.version()),
+    models: () => this.listModelKeys(),
+    providers: () => this.getProviders(),
+  };
+
+  getResource(ref: ResourceRef): Promise<Model | Provider | null> {
+    return ref.type === 'model'
+      ? this.getModelByRef(ref)
+      : this.getProvider(ref.id);
   }
 }
 
+// The /v1/models query parameters, less those shaping the HTTP response
+const searchModelsInput = {
+  q: z
+    .string()
+    .optional()
+    .describe(
+      'Fuzzy search over model id, name, family and provider, tolerant of typos and missing separators'
+    ),
+  provider: z
+    .string()
+    .optional()
+    .describe('Filter by provider id (e.g., openai, anthropic)'),
+  tool_call: z.boolean().optional().describe('Filter by tool calling support'),
+  attachment: z.boolean().optional().describe('Filter by attachment support'),
+  reasoning: z
+    .boolean()
+    .optional()
+    .describe('Filter by reasoning capabilities'),
+  temperature: z.boolean().optional().describe('Filter by temperature support'),
+  open_weights: z
+    .boolean()
+    .optional()
+    .describe('Filter by open weights availability'),
+  structured_output: z
+    .boolean()
+    .optional()
+    .describe('Filter by structured output support'),
+  min_input_cost: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Minimum input cost (USD per 1M tokens)'),
+  max_input_cost: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Maximum input cost (USD per 1M tokens)'),
+  min_output_cost: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Minimum output cost (USD per 1M tokens)'),
+  max_output_cost: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Maximum output cost (USD per 1M tokens)'),
+  min_context: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Minimum context window in tokens'),
+  max_context: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Maximum context window in tokens'),
+  min_output_limit: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Minimum output limit in tokens'),
+  max_output_limit: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Maximum output limit in tokens'),
+  modalities: z
+    .array(z.enum(MODALITIES))
+    .optional()
+    .describe('Modalities the model must accept or produce'),
+  release_after: z
+    .string()
+    .optional()
+    .describe('Released on or after this date (YYYY-MM-DD)'),
+  release_before: z
+    .string()
+    .optional()
+    .describe('Released on or before this date (YYYY-MM-DD)'),
+  updated_after: z
+    .string()
+    .optional()
+    .describe('Updated on or after this date (YYYY-MM-DD)'),
+  updated_before: z
+    .string()
+    .optional()
+    .describe('Updated on or before this date (YYYY-MM-DD)'),
+  filter: z
+    .string()
+    .optional()
+    .describe(
+      'Expression over model fields, e.g. `cost.cache_read < 0.1 or limit.input >= 400000`: comparisons, `has` for lists and text, `and`/`or`/`not` and parentheses'
+    ),
+  sort: z
+    .enum(MODEL_SORT_FIELDS)
+    .optional()
+    .describe(
+      'Sort field, `name` by default; `relevance` puts the best matches for `q` first'
+    ),
+  order: z.enum(['asc', 'desc']).optional().describe('Sort order'),
+  limit: z
+    .number()
+    .int()
+    .min(0)
+    .default(DEFAULT_SEARCH_LIMIT)
+    .describe('Maximum number of results'),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of results to skip'),
+  fields: z
+    .array(z.string())
+    .optional()
+    .describe('Top-level fields to return (e.g., ["id", "name", "cost"])'),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'Cursor from a previous result, for the models after it; overrides offset, sort and order'
+    ),
+};
+
+// How the search tools render results as text
+const outputInput = {
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .default('compact_table')
+    .describe(
+      'Text rendering: compact_table (pipe-separated, fewest tokens), markdown (table) or json'
+    ),
+  max_tokens: z
+    .number()
+    .int()
+    .min(MIN_MAX_TOKENS)
+    .default(DEFAULT_MAX_TOKENS)
+    .describe(
+      'Approximate token budget for the text; results beyond it are summarized and can be fetched with the returned cursor'
+    ),
+};
+
+const nextCursorOutput = z
+  .string()
+  .nullable()
+  .describe('Pass as `cursor` for the results after these');
+
+// Tool results come back as structuredContent matching these shapes, with
+// a text rendering as well. Unlisted fields pass through.
+const costFields = {
+  input: z.number().optional(),
+  output: z.number().optional(),
+  reasoning: z.number().optional(),
+  cache_read: z.number().optional(),
+  cache_write: z.number().optional(),
+  input_audio: z.number().optional(),
+  output_audio: z.number().optional(),
+};
+
+const modelSchema = z
+  .object({
+    id: z.string(),
+    provider: z.string(),
+    name: z.string().optional(),
+    family: z.string().optional(),
+    release_date: z.string().optional(),
+    last_updated: z.string().optional(),
+    knowledge: z.string().optional(),
+    attachment: z.boolean().optional(),
+    reasoning: z.boolean().optional(),
+    temperature: z.boolean().optional(),
+    tool_call: z.boolean().optional(),
+    structured_output: z.boolean().optional(),
+    open_weights: z.boolean().optional(),
+    status: z.string().optional(),
+    cost: z
+      .object({
+        ...costFields,
+        context_over_200k: z.object(costFields).passthrough().optional(),
+      })
+      .passthrough()
+      .optional()
+      .describe('Prices in USD per 1M tokens'),
+    limit: z
+      .object({
+        context: z.number().int().optional(),
+        input: z.number().int().optional(),
+        output: z.number().int().optional(),
+      })
+      .optional(),
+    modalities: z
+      .object({
+        input: z.array(z.string()).optional(),
+        output: z.array(z.string()).optional(),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+const providerSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    env: z.array(z.string()),
+    npm: z.string().optional(),
+    api: z.string().optional(),
+    doc: z.string().optional(),
+  })
+  .passthrough();
+
+// Mirrors the Comparison schema of /v1/compare
+const comparisonShape = {
+  models: z.array(
+    z.object({
+      id: z.string(),
+      provider: z.string(),
+      name: z.string().optional(),
+      wins: z
+        .number()
+        .int()
+        .describe('Fields in which the model has the best value'),
+    })
+  ),
+  fields: z.array(
+    z.object({
+      field: z.string(),
+      category: z.enum([
+        'cost',
+        'limits',
+        'modalities',
+        'capabilities',
+        'dates',
+      ]),
+      prefer: z.enum(['lower', 'higher', 'true', 'newer', 'more']),
+      values: z
+        .record(z.unknown())
+        .describe(
+          'Values keyed by model id, null where a model does not define the field'
+        ),
+      winners: z
+        .array(z.string())
+        .describe('Ids of the models with the best value; empty on a tie'),
+      differs: z.boolean(),
+    })
+  ),
+  differences: z
+    .array(z.string())
+    .describe('Fields whose values differ between the models'),
+};
+
 // Configuration schema for the ModelsPlus API
 export const configSchema = z.object({
+  baseUrl: z
+    .string()
+    .url()
+    .default(DEFAULT_BASE_URL)
+    .describe('ModelsPlus API base URL, e.g. of a self-hosted deployment'),
+  mode: z
+    .enum(DATA_MODES)
+    .default('auto')
+    .describe(
+      'remote: always query the API; offline: only use the data bundled with this package; auto: query the API and fall back to the bundled data when it is unreachable'
+    ),
   apiTimeout: z
     .number()
     .default(API_TIMEOUT_MS)
@@ -172,8 +570,14 @@ export const configSchema = z.object({
   debug: z.boolean().default(false).describe('Enable debug logging'),
 });
 
-export default function createServer() {
-  const api = new ModelsAPI();
+export type Config = z.infer<typeof configSchema>;
+
+export default function createServer({
+  config = {},
+}: {
+  config?: z.input<typeof configSchema>;
+} = {}) {
+  const api = new ModelsAPI(configSchema.parse(config));
 
   const server = new McpServer({
     name: 'modelsplus',
@@ -185,75 +589,49 @@ export default function createServer() {
     'search_models',
     {
       title: 'Search Models',
-      description: 'Search for AI models by name, provider, or capabilities',
-      inputSchema: {
-        q: z
-          .string()
-          .optional()
-          .describe('Search query (model name, provider, etc.)'),
-        provider: z
-          .string()
-          .optional()
-          .describe('Filter by provider (e.g., openai, anthropic)'),
-        tool_call: z
-          .boolean()
-          .optional()
-          .describe('Filter by tool calling support'),
-        reasoning: z
-          .boolean()
-          .optional()
-          .describe('Filter by reasoning capabilities'),
-        limit: z
-          .number()
-          .default(DEFAULT_SEARCH_LIMIT)
-          .describe('Maximum number of results'),
+      description:
+        'Search for AI models by name, provider, capabilities, price, limits, modalities or dates, sorted and paged. For example, the cheapest image-input model with a 1M context: modalities ["image"], min_context 1000000, sort "cost_input", limit 1',
+      inputSchema: { ...searchModelsInput, ...outputInput },
+      outputSchema: {
+        total: z.number().int().describe('Matches before paging'),
+        // Narrowed by `fields`, so nothing is required
+        models: z.array(modelSchema.partial()),
+        next_cursor: nextCursorOutput,
       },
     },
-    async (args: {
-      q?: string;
-      provider?: string;
-      tool_call?: boolean;
-      reasoning?: boolean;
-      limit?: number;
-    }) => {
-      const {
-        q,
-        provider,
-        tool_call,
-        reasoning,
-        limit = DEFAULT_SEARCH_LIMIT,
-      } = args;
-      const searchOptions: Parameters<ModelsAPI['searchModels']>[0] = {};
-
-      if (q !== undefined) {
-        searchOptions.q = q;
-      }
-      if (provider !== undefined) {
-        searchOptions.provider = provider;
-      }
-      if (tool_call !== undefined) {
-        searchOptions.tool_call = tool_call;
-      }
-      if (reasoning !== undefined) {
-        searchOptions.reasoning = reasoning;
-      }
-      if (limit !== undefined) {
-        searchOptions.limit = limit;
-      }
-
+    // Results cut short by the token budget continue after the last one
+    // shown, so results narrowed by `fields` carry its key fields until then
+    async ({ format, max_tokens: maxTokens, ...query }) => {
       try {
-        const models = await api.searchModels(searchOptions);
+        const { fields } = query;
+        const { data, total, next_cursor } = await api.searchModels({
+          ...query,
+          fields: fields && [...new Set([...fields, ...modelKeyFields(query)])],
+        });
+        const models = fields
+          ? data.map((model) => selectFields(model, fields))
+          : data;
+        const { text, shown } = renderModelResults(models, {
+          total,
+          format,
+          maxTokens,
+        });
+        const cursor =
+          shown < data.length
+            ? modelCursorAfter(data[shown - 1], query)
+            : next_cursor;
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${models.length} AI models matching your criteria:\n\n${JSON.stringify(
-                models,
-                null,
-                2
-              )}`,
+              text: text + continuationNote('search_models', cursor),
             },
           ],
+          structuredContent: {
+            total,
+            models: models.slice(0, shown),
+            next_cursor: cursor,
+          },
         };
       } catch (error) {
         throw new Error(
@@ -272,6 +650,7 @@ export default function createServer() {
       inputSchema: {
         id: z.string().describe('Model ID (e.g., gpt-4, claude-3-sonnet)'),
       },
+      outputSchema: { model: modelSchema },
     },
     async (args) => {
       const { id } = args as { id: string };
@@ -286,9 +665,10 @@ export default function createServer() {
           content: [
             {
               type: 'text',
-              text: `AI model details for ${model.id}:\n\n${JSON.stringify(model, null, 2)}`,
+              text: summarizeModel(model),
             },
           ],
+          structuredContent: { model },
         };
       } catch (error) {
         throw new Error(
@@ -315,10 +695,29 @@ export default function createServer() {
           .number()
           .default(DEFAULT_PROVIDERS_LIMIT)
           .describe('Maximum number of results'),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            'Cursor from a previous result, for the providers after it'
+          ),
+        ...outputInput,
+      },
+      outputSchema: {
+        total: z.number().int().describe('Matches before paging'),
+        providers: z.array(providerSchema),
+        next_cursor: nextCursorOutput,
       },
     },
-    async (args: { q?: string; env?: string; limit?: number }) => {
-      const { q, env, limit = DEFAULT_PROVIDERS_LIMIT } = args;
+    async (args) => {
+      const {
+        q,
+        env,
+        limit = DEFAULT_PROVIDERS_LIMIT,
+        cursor,
+        format,
+        max_tokens: maxTokens,
+      } = args;
       const searchOptions: Parameters<ModelsAPI['searchProviders']>[0] = {};
 
       if (q !== undefined) {
@@ -330,20 +729,34 @@ export default function createServer() {
       if (limit !== undefined) {
         searchOptions.limit = limit;
       }
+      if (cursor !== undefined) {
+        searchOptions.cursor = cursor;
+      }
 
       try {
-        const providers = await api.searchProviders(searchOptions);
+        const { data, total, next_cursor } =
+          await api.searchProviders(searchOptions);
+        const { text, shown } = renderProviderResults(data, {
+          total,
+          format,
+          maxTokens,
+        });
+        const next =
+          shown < data.length
+            ? providerCursorAfter(data[shown - 1], searchOptions)
+            : next_cursor;
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${providers.length} AI model providers matching your criteria:\n\n${JSON.stringify(
-                providers,
-                null,
-                2
-              )}`,
+              text: text + continuationNote('search_providers', next),
             },
           ],
+          structuredContent: {
+            total,
+            providers: data.slice(0, shown),
+            next_cursor: next,
+          },
         };
       } catch (error) {
         throw new Error(
@@ -363,6 +776,7 @@ export default function createServer() {
       inputSchema: {
         id: z.string().describe('Provider ID'),
       },
+      outputSchema: { provider: providerSchema },
     },
     async (args) => {
       const { id } = args as { id: string };
@@ -377,9 +791,10 @@ export default function createServer() {
           content: [
             {
               type: 'text',
-              text: `AI model provider details for ${provider.id}:\n\n${JSON.stringify(provider, null, 2)}`,
+              text: summarizeProvider(provider),
             },
           ],
+          structuredContent: { provider },
         };
       } catch (error) {
         throw new Error(
@@ -389,6 +804,46 @@ export default function createServer() {
     }
   );
 
+  // Tool: Compare Models
+  server.registerTool(
+    'compare_models',
+    {
+      title: 'Compare Models',
+      description:
+        'Compare AI models side by side across cost, limits, modalities, capabilities and dates, with the best value per field highlighted',
+      inputSchema: {
+        ids: z
+          .array(z.string())
+          .min(2)
+          .max(MAX_COMPARE_MODELS)
+          .describe(
+            'Model IDs to compare (e.g., ["anthropic:claude-sonnet-4-5", "openai:gpt-4o"])'
+          ),
+      },
+      outputSchema: comparisonShape,
+    },
+    async (args) => {
+      const { ids } = args as { ids: string[] };
+
+      try {
+        const comparison = await api.compareModels(ids);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Comparison of ${ids.length} AI models:\n\n${summarizeComparison(comparison)}`,
+            },
+          ],
+          structuredContent: comparison,
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to compare models: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
   // Resource: ModelsPlus API Info
   server.registerResource(
     'modelsplus-api-info',
@@ -403,7 +858,7 @@ export default function createServer() {
           uri: uri.href,
           text: `ModelsPlus MCP Server v0.1.1
 
-Data Source: https://modelsplus.quivr.tech
+Data Source: ${api.describeSource()}
 API Documentation: https://github.com/vivek-k3/modelsplus
 
 This server provides real-time access to AI model specifications and provider information from the Models.dev database.
@@ -413,6 +868,14 @@ Available Tools:
 - get_model: Get detailed information about a specific model
 - search_providers: Search AI model providers
 - get_provider: Get detailed information about a specific provider
+- compare_models: Compare AI models side by side
+
+Resources:
+- ${MODEL_URI_TEMPLATE}: Specification of an AI model
+- ${PROVIDER_URI_TEMPLATE}: Details of an AI model provider
+
+Prompts:
+${PROMPTS.map((prompt) => `- ${prompt.name}: ${prompt.description}`).join('\n')}
 `,
           mimeType: 'text/plain',
         },
@@ -420,5 +883,102 @@ Available Tools:
     })
   );
 
+  // Resources: a spec sheet per model and provider
+  const readResource = async (uri: URL) => {
+    const ref = parseResourceUri(uri.href);
+    const resource = ref && (await api.getResource(ref));
+    if (!resource) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri.href} not found`
+      );
+    }
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: RESOURCE_MIME_TYPE,
+          text: JSON.stringify(resource, null, 2),
+        },
+      ],
+    };
+  };
+
+  server.registerResource(
+    'model',
+    new ResourceTemplate(MODEL_URI_TEMPLATE, {
+      list: async () => ({
+        resources: (await api.listModelKeys()).map(modelResource),
+      }),
+    }),
+    {
+      title: 'AI Model',
+      description: 'Specification of an AI model, by provider and model ID',
+      mimeType: RESOURCE_MIME_TYPE,
+    },
+    readResource
+  );
+
+  server.registerResource(
+    'provider',
+    new ResourceTemplate(PROVIDER_URI_TEMPLATE, {
+      list: async () => ({
+        resources: (await api.getProviders()).map(providerResource),
+      }),
+    }),
+    {
+      title: 'AI Model Provider',
+      description: 'Details of an AI model provider',
+      mimeType: RESOURCE_MIME_TYPE,
+    },
+    readResource
+  );
+
+  // Prompts: guided model-selection workflows
+  for (const prompt of PROMPTS) {
+    const argsSchema = Object.fromEntries(
+      prompt.arguments.map((arg) => {
+        const schema = z.string().describe(arg.description);
+        return [arg.name, arg.required ? schema : schema.optional()];
+      })
+    );
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema },
+      async (args) => {
+        try {
+          return await getPrompt(prompt.name, args, api.catalog);
+        } catch (error) {
+          if (error instanceof PromptError) {
+            throw new McpError(ErrorCode.InvalidParams, error.message);
+          }
+          throw error;
+        }
+      }
+    );
+  }
+
+  // Completion of the model and provider ids taken by prompts and resource
+  // templates
+  server.server.registerCapabilities({ completions: {} });
+  server.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument, context } = request.params;
+    try {
+      return {
+        completion: await completeArgument(
+          ref,
+          argument,
+          context?.arguments ?? {},
+          api.completions
+        ),
+      };
+    } catch (error) {
+      if (error instanceof CompletionError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
   return server.server;
 }
@@ -0,0 +1,150 @@
+import type { Model } from './types';
+
+// Upper bound on models per comparison to keep responses readable
+export const MAX_COMPARE_MODELS = 10;
+
+type Preference = 'lower' | 'higher' | 'true' | 'newer' | 'more';
+
+type FieldSpec = {
+  field: string;
+  category: 'cost' | 'limits' | 'modalities' | 'capabilities' | 'dates';
+  prefer: Preference;
+};
+
+const COMPARED_FIELDS: FieldSpec[] = [
+  { field: 'cost.input', category: 'cost', prefer: 'lower' },
+  { field: 'cost.output', category: 'cost', prefer: 'lower' },
+  { field: 'cost.cache_read', category: 'cost', prefer: 'lower' },
+  { field: 'cost.cache_write', category: 'cost', prefer: 'lower' },
+  { field: 'cost.reasoning', category: 'cost', prefer: 'lower' },
+  { field: 'cost.input_audio', category: 'cost', prefer: 'lower' },
+  { field: 'cost.output_audio', category: 'cost', prefer: 'lower' },
+  { field: 'limit.context', category: 'limits', prefer: 'higher' },
+  { field: 'limit.input', category: 'limits', prefer: 'higher' },
+  { field: 'limit.output', category: 'limits', prefer: 'higher' },
+  { field: 'modalities.input', category: 'modalities', prefer: 'more' },
+  { field: 'modalities.output', category: 'modalities', prefer: 'more' },
+  { field: 'attachment', category: 'capabilities', prefer: 'true' },
+  { field: 'reasoning', category: 'capabilities', prefer: 'true' },
+  { field: 'tool_call', category: 'capabilities', prefer: 'true' },
+  { field: 'structured_output', category: 'capabilities', prefer: 'true' },
+  { field: 'temperature', category: 'capabilities', prefer: 'true' },
+  { field: 'open_weights', category: 'capabilities', prefer: 'true' },
+  { field: 'release_date', category: 'dates', prefer: 'newer' },
+  { field: 'last_updated', category: 'dates', prefer: 'newer' },
+  { field: 'knowledge', category: 'dates', prefer: 'newer' },
+];
+
+export type FieldComparison = {
+  field: string;
+  category: FieldSpec['category'];
+  prefer: Preference;
+  // Values keyed by model id, null when the model does not define the field
+  values: Record<string, unknown>;
+  // Ids of the models holding the best value; empty when all values tie
+  winners: string[];
+  differs: boolean;
+};
+
+export type ModelComparison = {
+  models: Array<{ id: string; provider: string; name?: string; wins: number }>;
+  fields: FieldComparison[];
+  differences: string[];
+};
+
+function getPath(model: Model, path: string): unknown {
+  let current: unknown = model;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// Map a value onto a number where larger is better, or undefined if unrankable
+const SCORERS: Record<Preference, (value: unknown) => number | undefined> = {
+  lower: (value) => (typeof value === 'number' ? -value : undefined),
+  higher: (value) => (typeof value === 'number' ? value : undefined),
+  true: (value) => (value === true ? 1 : 0),
+  more: (value) => (Array.isArray(value) ? value.length : undefined),
+  newer: (value) => {
+    const time = new Date(String(value)).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  },
+};
+
+function compareField(models: Model[], spec: FieldSpec): FieldComparison {
+  const values: Record<string, unknown> = {};
+  const scores = new Map<string, number>();
+
+  for (const model of models) {
+    const value = getPath(model, spec.field);
+    values[model.id] = value ?? null;
+    const s =
+      value === undefined || value === null
+        ? undefined
+        : SCORERS[spec.prefer](value);
+    if (s !== undefined) {
+      scores.set(model.id, s);
+    }
+  }
+
+  const serialized = new Set(
+    Object.values(values).map((v) => JSON.stringify(v))
+  );
+  const differs = serialized.size > 1;
+
+  let winners: string[] = [];
+  if (differs && scores.size) {
+    const best = Math.max(...scores.values());
+    winners = [...scores].filter(([, s]) => s === best).map(([id]) => id);
+    // A tie across every model is not a win for anyone
+    if (winners.length === models.length) {
+      winners = [];
+    }
+  }
+
+  return {
+    field: spec.field,
+    category: spec.category,
+    prefer: spec.prefer,
+    values,
+    winners,
+    differs,
+  };
+}
+
+export function compareModels(models: Model[]): ModelComparison {
+  const fields = COMPARED_FIELDS.map((spec) => compareField(models, spec));
+
+  const wins = new Map<string, number>(models.map((m) => [m.id, 0]));
+  for (const comparison of fields) {
+    for (const id of comparison.winners) {
+      wins.set(id, (wins.get(id) ?? 0) + 1);
+    }
+  }
+
+  return {
+    models: models.map((m) => ({
+      id: m.id,
+      provider: m.provider,
+      name: m.name,
+      wins: wins.get(m.id) ?? 0,
+    })),
+    fields,
+    differences: fields.filter((f) => f.differs).map((f) => f.field),
+  };
+}
+
+export function parseCompareIds(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  const ids = value
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,189 @@
+import { PROMPTS } from './prompts';
+import {
+  MODEL_URI_TEMPLATE,
+  modelName,
+  PROVIDER_URI_TEMPLATE,
+} from './resources';
+import {
+  buildSuggestionIndex,
+  type SuggestionIndex,
+  type Suggestions,
+  suggest,
+} from './suggest';
+import type { Model, Provider } from './types';
+
+// MCP argument completion (completion/complete). The protocol completes
+// prompt and resource template arguments only, not tool arguments, so model
+// and provider ids are suggested wherever a prompt or template takes them.
+
+// Most values a completion result may carry
+export const MAX_COMPLETIONS = 100;
+
+export type CompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+// Values of the arguments already filled in, e.g. the provider of a model URI
+export type CompletionContext = Record<string, string | undefined>;
+
+export type Completion = {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+};
+
+// Where completions read the catalog from: the bundled data or the HTTP API.
+// The lists are read and indexed once per `version`, which should be cheap
+// to get and change whenever the models or providers do.
+export type CompletionCatalog = {
+  version(): Promise<string>;
+  models(): Promise<Pick<Model, 'id' | 'provider'>[]>;
+  providers(): Promise<Pick<Provider, 'id'>[]>;
+};
+
+export class CompletionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompletionError';
+  }
+}
+
+type Completer = (
+  value: string,
+  context: CompletionContext,
+  catalog: CompletionCatalog
+) => Promise<Suggestions>;
+
+// Indexes built from one version of a catalog
+type CatalogIndexes = {
+  version: string;
+  models?: Promise<Pick<Model, 'id' | 'provider'>[]>;
+  // e.g. "providers", "models" or "names:openai"
+  indexes: Map<string, Promise<SuggestionIndex>>;
+};
+
+const catalogIndexes = new WeakMap<CompletionCatalog, CatalogIndexes>();
+
+async function currentIndexes(
+  catalog: CompletionCatalog
+): Promise<CatalogIndexes> {
+  const version = await catalog.version();
+  let current = catalogIndexes.get(catalog);
+  if (current?.version !== version) {
+    current = { version, indexes: new Map() };
+    catalogIndexes.set(catalog, current);
+  }
+  return current;
+}
+
+// Failed reads are not cached, so the next completion tries again
+function remember<T>(promise: Promise<T>, forget: () => void): Promise<T> {
+  promise.catch(forget);
+  return promise;
+}
+
+function catalogModels(
+  current: CatalogIndexes,
+  catalog: CompletionCatalog
+): Promise<Pick<Model, 'id' | 'provider'>[]> {
+  current.models ??= remember(catalog.models(), () => {
+    current.models = undefined;
+  });
+  return current.models;
+}
+
+async function cachedIndex(
+  catalog: CompletionCatalog,
+  key: string,
+  build: (current: CatalogIndexes) => Promise<SuggestionIndex>
+): Promise<SuggestionIndex> {
+  const current = await currentIndexes(catalog);
+  let index = current.indexes.get(key);
+  if (!index) {
+    index = remember(build(current), () => current.indexes.delete(key));
+    current.indexes.set(key, index);
+  }
+  return index;
+}
+
+const modelIds: Completer = async (value, _context, catalog) => {
+  const index = await cachedIndex(catalog, 'models', async (current) =>
+    buildSuggestionIndex(
+      (await catalogModels(current, catalog)).map((m) => m.id)
+    )
+  );
+  return suggest(index, value, MAX_COMPLETIONS);
+};
+
+const providerIds: Completer = async (value, _context, catalog) => {
+  const index = await cachedIndex(catalog, 'providers', async () =>
+    buildSuggestionIndex((await catalog.providers()).map((p) => p.id))
+  );
+  return suggest(index, value, MAX_COMPLETIONS);
+};
+
+// Model ids less the provider prefix, from the chosen provider if any
+const modelNames: Completer = async (value, context, catalog) => {
+  const provider = context.provider ?? '';
+  const index = await cachedIndex(
+    catalog,
+    `names:${provider}`,
+    async (current) => {
+      const models = (await catalogModels(current, catalog)).filter(
+        (m) => !provider || m.provider === provider
+      );
+      return buildSuggestionIndex(models.map(modelName));
+    }
+  );
+  return suggest(index, value, MAX_COMPLETIONS);
+};
+
+const LEADING_SPACE = /^\s*/;
+
+// The last id of a comma-separated list, keeping the ones before it
+const modelIdList: Completer = async (value, context, catalog) => {
+  const start = value.lastIndexOf(',') + 1;
+  const space = LEADING_SPACE.exec(value.slice(start))?.[0] ?? '';
+  const head = value.slice(0, start) + space;
+  const completed = await modelIds(value.slice(head.length), context, catalog);
+  return { ...completed, values: completed.values.map((id) => head + id) };
+};
+
+const PROMPT_COMPLETERS: Record<string, Record<string, Completer>> = {
+  choose_model: { provider: providerIds },
+  migrate_model: { model: modelIds },
+  estimate_spend: { models: modelIdList },
+};
+
+const RESOURCE_COMPLETERS: Record<string, Record<string, Completer>> = {
+  [MODEL_URI_TEMPLATE]: { provider: providerIds, model: modelNames },
+  [PROVIDER_URI_TEMPLATE]: { id: providerIds },
+};
+
+// Rejects with a CompletionError for unknown prompts and resource templates;
+// other arguments of known ones have no completions
+export async function completeArgument(
+  ref: CompletionRef,
+  argument: { name: string; value: string },
+  context: CompletionContext,
+  catalog: CompletionCatalog
+): Promise<Completion> {
+  let completers: Record<string, Completer> | undefined;
+  if (ref.type === 'ref/prompt') {
+    if (!PROMPTS.some((prompt) => prompt.name === ref.name)) {
+      throw new CompletionError(`Unknown prompt: ${ref.name}`);
+    }
+    completers = PROMPT_COMPLETERS[ref.name];
+  } else {
+    completers = RESOURCE_COMPLETERS[ref.uri];
+    if (!completers) {
+      throw new CompletionError(`Unknown resource template: ${ref.uri}`);
+    }
+  }
+  const complete = completers?.[argument.name];
+  if (!complete) {
+    return { values: [], total: 0, hasMore: false };
+  }
+  const { values, total } = await complete(argument.value, context, catalog);
+  return { values, total, hasMore: total > values.length };
+}
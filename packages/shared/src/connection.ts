@@ -0,0 +1,52 @@
+import type { Model, ModelProviderOverride, Provider } from './types';
+
+// How to reach a model: its provider's SDK package, base URL and required
+// environment variables, with whatever the model's `[provider]` table in
+// models.dev overrides. Each of `npm`, `api` and `shape` is taken from the
+// model when it sets one and from the provider otherwise.
+
+export type ApiShape = NonNullable<ModelProviderOverride['shape']>;
+
+export type ModelConnection = {
+  model: string;
+  provider: string;
+  // AI SDK provider package, e.g. @ai-sdk/openai-compatible
+  npm: string | null;
+  // Base URL, null for SDKs with a built-in endpoint. May hold ${VAR}
+  // placeholders for values from the environment.
+  api: string | null;
+  // OpenAI API flavour; null when the model doesn't set one and the SDK's
+  // default applies
+  shape: ApiShape | null;
+  // The provider's variables plus any the base URL refers to
+  env: string[];
+  // Fields taken from the model rather than its provider
+  overrides: (keyof ModelProviderOverride)[];
+};
+
+const ENV_PLACEHOLDER = /\$\{(\w+)\}/g;
+
+function placeholders(url: string | null): string[] {
+  return url ? [...url.matchAll(ENV_PLACEHOLDER)].map((match) => match[1]) : [];
+}
+
+// `provider` is undefined for models whose provider entry failed validation
+export function resolveConnection(
+  model: Model,
+  provider: Provider | undefined
+): ModelConnection {
+  const override = model.provider_override ?? {};
+  const npm = override.npm ?? provider?.npm ?? null;
+  const api = override.api ?? provider?.api ?? null;
+  return {
+    model: model.id,
+    provider: model.provider,
+    npm,
+    api,
+    shape: override.shape ?? null,
+    env: [...new Set([...(provider?.env ?? []), ...placeholders(api)])],
+    overrides: (['npm', 'api', 'shape'] as const).filter(
+      (field) => override[field] !== undefined
+    ),
+  };
+}
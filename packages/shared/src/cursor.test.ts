@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type CursorKey,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  pageByCursor,
+  type SortOrder,
+} from './cursor';
+
+type Item = { id: string; price: number };
+
+// Ties on price are broken by id
+const ITEMS: Item[] = [
+  { id: 'a', price: 1 },
+  { id: 'b', price: 1 },
+  { id: 'c', price: 1 },
+  { id: 'd', price: 2 },
+  { id: 'e', price: 2 },
+  { id: 'f', price: 3 },
+];
+
+const keyOf = (item: Item): CursorKey => [item.price, item.id];
+
+function ids(items: Item[]): string[] {
+  return items.map((item) => item.id);
+}
+
+function page(
+  items: Item[],
+  options: { cursor?: string | null; limit?: number; order?: SortOrder } = {}
+) {
+  return pageByCursor(items, keyOf, {
+    sort: 'price',
+    order: options.order ?? 'asc',
+    cursor: options.cursor ? decodeCursor(options.cursor) : undefined,
+    limit: options.limit,
+  });
+}
+
+describe('pageByCursor', () => {
+  test('pages forward through ties', () => {
+    const first = page(ITEMS, { limit: 2 });
+    expect(ids(first.items)).toEqual(['a', 'b']);
+    expect(first.prev_cursor).toBeNull();
+
+    const second = page(ITEMS, { cursor: first.next_cursor, limit: 2 });
+    expect(ids(second.items)).toEqual(['c', 'd']);
+
+    const third = page(ITEMS, { cursor: second.next_cursor, limit: 2 });
+    expect(ids(third.items)).toEqual(['e', 'f']);
+    expect(third.next_cursor).toBeNull();
+  });
+
+  test('pages back to the start', () => {
+    const first = page(ITEMS, { limit: 4 });
+    const second = page(ITEMS, { cursor: first.next_cursor, limit: 4 });
+    expect(ids(second.items)).toEqual(['e', 'f']);
+
+    const back = page(ITEMS, { cursor: second.prev_cursor, limit: 3 });
+    expect(ids(back.items)).toEqual(['b', 'c', 'd']);
+    expect(ids(page(ITEMS, { cursor: back.next_cursor }).items)).toEqual([
+      'e',
+      'f',
+    ]);
+
+    const start = page(ITEMS, { cursor: back.prev_cursor, limit: 3 });
+    expect(ids(start.items)).toEqual(['a']);
+    expect(start.prev_cursor).toBeNull();
+  });
+
+  test('pages in descending order', () => {
+    const sorted = [...ITEMS].reverse();
+    const first = page(sorted, { limit: 2, order: 'desc' });
+    expect(ids(first.items)).toEqual(['f', 'e']);
+
+    const second = page(sorted, {
+      cursor: first.next_cursor,
+      limit: 2,
+      order: 'desc',
+    });
+    expect(ids(second.items)).toEqual(['d', 'c']);
+
+    const back = page(sorted, {
+      cursor: second.prev_cursor,
+      order: 'desc',
+    });
+    expect(ids(back.items)).toEqual(['f', 'e']);
+  });
+
+  test('continues after an item that is no longer listed', () => {
+    const first = page(ITEMS, { limit: 2 });
+    const without = ITEMS.filter((item) => item.id !== 'b');
+    expect(ids(page(without, { cursor: first.next_cursor }).items)).toEqual([
+      'c',
+      'd',
+      'e',
+      'f',
+    ]);
+  });
+
+  test('limit 0 returns every remaining item', () => {
+    const all = page(ITEMS, { limit: 0 });
+    expect(ids(all.items)).toEqual(ids(ITEMS));
+    expect(all.next_cursor).toBeNull();
+    expect(all.prev_cursor).toBeNull();
+
+    const first = page(ITEMS, { limit: 2 });
+    const rest = page(ITEMS, { cursor: first.next_cursor, limit: 0 });
+    expect(ids(rest.items)).toEqual(['c', 'd', 'e', 'f']);
+    expect(rest.next_cursor).toBeNull();
+
+    const before = page(ITEMS, { cursor: rest.prev_cursor, limit: 0 });
+    expect(ids(before.items)).toEqual(['a', 'b']);
+  });
+
+  test('an empty list has no cursors', () => {
+    expect(page([], { limit: 2 })).toEqual({
+      items: [],
+      next_cursor: null,
+      prev_cursor: null,
+    });
+  });
+});
+
+describe('cursor encoding', () => {
+  test('round-trips', () => {
+    const cursor = {
+      sort: 'name',
+      order: 'desc' as const,
+      after: ['gpt-4o “mini”', 'openai:gpt-4o-mini'] as CursorKey,
+    };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  test.each([
+    'not a cursor',
+    encodeCursor({ sort: 'name', order: 'asc' }),
+    btoa(JSON.stringify({ sort: 'name', order: 'up', after: [1, 'a'] })),
+    btoa(JSON.stringify({ sort: 'name', order: 'asc', after: [1] })),
+  ])('rejects %p', (value) => {
+    expect(() => decodeCursor(value)).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,174 @@
+// Opaque keyset cursors. A cursor records the sort it was issued for and the
+// sort key of the item it points past, so pages stay consistent even when
+// the catalog changes between requests.
+
+export type SortOrder = 'asc' | 'desc';
+
+// Sort value, then id as a tie-breaker so that every ordering is total
+export type CursorKey = [string | number, string];
+
+export type Cursor = {
+  sort: string;
+  order: SortOrder;
+  // Items strictly after this key (next page) ...
+  after?: CursorKey;
+  // ... or strictly before it (previous page)
+  before?: CursorKey;
+};
+
+export type CursorPage<T> = {
+  items: T[];
+  next_cursor: string | null;
+  prev_cursor: string | null;
+};
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const BASE64_PLUS = /\+/g;
+const BASE64_SLASH = /\//g;
+const BASE64_PADDING = /=+$/;
+const BASE64URL_DASH = /-/g;
+const BASE64URL_UNDERSCORE = /_/g;
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) =>
+    String.fromCharCode(byte)
+  ).join('');
+  return btoa(binary)
+    .replace(BASE64_PLUS, '-')
+    .replace(BASE64_SLASH, '_')
+    .replace(BASE64_PADDING, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(
+    value.replace(BASE64URL_DASH, '+').replace(BASE64URL_UNDERSCORE, '/')
+  );
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return toBase64Url(JSON.stringify(cursor));
+}
+
+function isCursorKey(value: unknown): value is CursorKey {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    ['string', 'number'].includes(typeof value[0]) &&
+    typeof value[1] === 'string'
+  );
+}
+
+export function decodeCursor(value: string): Cursor {
+  let data: Partial<Cursor>;
+  try {
+    data = JSON.parse(fromBase64Url(value));
+  } catch (_error) {
+    throw new InvalidCursorError();
+  }
+  const key = data.after ?? data.before;
+  if (
+    typeof data.sort !== 'string' ||
+    (data.order !== 'asc' && data.order !== 'desc') ||
+    !isCursorKey(key)
+  ) {
+    throw new InvalidCursorError();
+  }
+  return data as Cursor;
+}
+
+export function compareKeys(
+  a: CursorKey,
+  b: CursorKey,
+  order: SortOrder
+): number {
+  let cmp = 0;
+  if (a[0] !== b[0]) {
+    cmp = a[0] > b[0] ? 1 : -1;
+  } else if (a[1] !== b[1]) {
+    cmp = a[1] > b[1] ? 1 : -1;
+  }
+  return order === 'desc' ? -cmp : cmp;
+}
+
+// Index of the first item that sorts after the cursor key (or at it, with
+// `inclusive`); `compareToKey` orders an item relative to that key
+function findPosition<T>(
+  items: T[],
+  compareToKey: (item: T) => number,
+  inclusive: boolean
+): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const cmp = compareToKey(items[mid]);
+    if (cmp < 0 || (cmp === 0 && !inclusive)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Slice one page out of items already sorted by `keyOf` in `order`.
+// A cursor takes precedence over `offset`.
+export function pageByCursor<T>(
+  items: T[],
+  keyOf: (item: T) => CursorKey,
+  options: {
+    sort: string;
+    order: SortOrder;
+    cursor?: Cursor;
+    limit?: number;
+    offset?: number;
+  }
+): CursorPage<T> {
+  const { sort, order, cursor } = options;
+  const limit = options.limit && options.limit > 0 ? options.limit : undefined;
+
+  let start = Math.max(options.offset ?? 0, 0);
+  let end = limit === undefined ? items.length : start + limit;
+  if (cursor?.after) {
+    const key = cursor.after;
+    start = findPosition(
+      items,
+      (item) => compareKeys(keyOf(item), key, order),
+      false
+    );
+    end = limit === undefined ? items.length : start + limit;
+  } else if (cursor?.before) {
+    const key = cursor.before;
+    end = findPosition(
+      items,
+      (item) => compareKeys(keyOf(item), key, order),
+      true
+    );
+    start = limit === undefined ? 0 : Math.max(end - limit, 0);
+  }
+  end = Math.min(end, items.length);
+
+  const page = items.slice(start, end);
+  const first = page[0];
+  const last = page.at(-1);
+  return {
+    items: page,
+    next_cursor:
+      last !== undefined && end < items.length
+        ? encodeCursor({ sort, order, after: keyOf(last) })
+        : null,
+    prev_cursor:
+      first !== undefined && start > 0
+        ? encodeCursor({ sort, order, before: keyOf(first) })
+        : null,
+  };
+}
@@ -0,0 +1,130 @@
+import type { Model, ModelCost } from './types';
+
+// Prices in the catalog are USD per million tokens
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// Prompts larger than this are billed at the `context_over_200k` rates
+const LONG_CONTEXT_THRESHOLD = 200_000;
+
+// Estimates are rounded to a millionth of a dollar
+const COST_PRECISION = 1_000_000;
+
+export const USAGE_FIELDS = [
+  'input',
+  'output',
+  'cache_read',
+  'cache_write',
+  'reasoning',
+  'input_audio',
+  'output_audio',
+] as const;
+
+export type UsageField = (typeof USAGE_FIELDS)[number];
+
+export type TokenUsage = Record<UsageField, number>;
+
+export type CostEstimate = {
+  id: string;
+  provider: string;
+  name?: string;
+  tier: 'standard' | 'context_over_200k';
+  total: number;
+  breakdown: Partial<Record<UsageField, number>>;
+  // Token kinds the model has no dedicated price for, billed at the base rate
+  fallbacks: UsageField[];
+};
+
+// Token kinds without their own price are billed like plain input/output
+const FALLBACK_RATE: Record<UsageField, 'input' | 'output'> = {
+  input: 'input',
+  output: 'output',
+  cache_read: 'input',
+  cache_write: 'input',
+  reasoning: 'output',
+  input_audio: 'input',
+  output_audio: 'output',
+};
+
+export function promptTokens(usage: TokenUsage): number {
+  return usage.input + usage.cache_read + usage.cache_write + usage.input_audio;
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  let total = 0;
+  for (const field of USAGE_FIELDS) {
+    total += usage[field];
+  }
+  return total;
+}
+
+function selectRates(
+  cost: ModelCost,
+  usage: TokenUsage
+): { tier: CostEstimate['tier']; rates: ModelCost } {
+  const longContext = cost.context_over_200k;
+  if (longContext && promptTokens(usage) > LONG_CONTEXT_THRESHOLD) {
+    return { tier: 'context_over_200k', rates: longContext };
+  }
+  return { tier: 'standard', rates: cost };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * COST_PRECISION) / COST_PRECISION;
+}
+
+export function estimateCost(
+  model: Model,
+  usage: TokenUsage
+): CostEstimate | undefined {
+  if (model.cost?.input === undefined || model.cost?.output === undefined) {
+    return;
+  }
+
+  const { tier, rates } = selectRates(model.cost, usage);
+  const breakdown: CostEstimate['breakdown'] = {};
+  const fallbacks: UsageField[] = [];
+  let total = 0;
+
+  for (const field of USAGE_FIELDS) {
+    const tokens = usage[field];
+    if (!tokens) {
+      continue;
+    }
+    let rate = rates[field];
+    if (rate === undefined) {
+      rate = rates[FALLBACK_RATE[field]] ?? 0;
+      fallbacks.push(field);
+    }
+    const amount = (tokens / TOKENS_PER_PRICE_UNIT) * rate;
+    breakdown[field] = roundCost(amount);
+    total += amount;
+  }
+
+  return {
+    id: model.id,
+    provider: model.provider,
+    name: model.name,
+    tier,
+    total: roundCost(total),
+    breakdown,
+    fallbacks,
+  };
+}
+
+export function estimateModels(
+  models: Model[],
+  usage: TokenUsage,
+  order = 'asc'
+): CostEstimate[] {
+  const estimates: CostEstimate[] = [];
+  for (const model of models) {
+    const estimate = estimateCost(model, usage);
+    if (estimate) {
+      estimates.push(estimate);
+    }
+  }
+  const direction = order === 'desc' ? -1 : 1;
+  return estimates.sort(
+    (a, b) => direction * (a.total - b.total) || a.id.localeCompare(b.id)
+  );
+}
@@ -0,0 +1,197 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  compileFilter,
+  type FilterExpression,
+  FilterSyntaxError,
+  parseFilter,
+} from './filter';
+import type { Model } from './types';
+
+const MODELS: Model[] = [
+  {
+    id: 'anthropic:claude-opus-4',
+    provider: 'anthropic',
+    name: 'Claude Opus 4',
+    release_date: '2025-05-22',
+    reasoning: true,
+    open_weights: false,
+    cost: { input: 15, output: 75, cache_read: 1.5 },
+    limit: { context: 200_000, output: 32_000 },
+    modalities: { input: ['text', 'image', 'pdf'], output: ['text'] },
+  },
+  {
+    id: 'openai:gpt-4o-mini',
+    provider: 'openai',
+    name: 'GPT-4o mini',
+    release_date: '2024-07-18',
+    reasoning: false,
+    open_weights: false,
+    cost: { input: 0.15, output: 0.6, cache_read: 0.075 },
+    limit: { context: 128_000, output: 16_384 },
+    modalities: { input: ['text', 'image'], output: ['text'] },
+  },
+  {
+    id: 'deepseek:deepseek-r1',
+    provider: 'deepseek',
+    name: 'DeepSeek R1',
+    release_date: '2025-01',
+    reasoning: true,
+    open_weights: true,
+    cost: { input: 0.55, output: 2.19 },
+    limit: { context: 128_000, output: 8192 },
+    modalities: { input: ['text'], output: ['text'] },
+  },
+];
+
+function matching(source: string): string[] {
+  return MODELS.filter(compileFilter(source)).map((m) => m.id);
+}
+
+function syntaxError(source: string): FilterSyntaxError {
+  try {
+    parseFilter(source);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`'${source}' parsed without an error`);
+}
+
+const flag = (field: string): FilterExpression => ({ type: 'flag', field });
+
+describe('parseFilter', () => {
+  test('and binds tighter than or', () => {
+    expect(parseFilter('reasoning or open_weights and attachment')).toEqual({
+      type: 'or',
+      left: flag('reasoning'),
+      right: {
+        type: 'and',
+        left: flag('open_weights'),
+        right: flag('attachment'),
+      },
+    });
+  });
+
+  test('not binds tighter than and', () => {
+    expect(parseFilter('not reasoning and open_weights')).toEqual({
+      type: 'and',
+      left: { type: 'not', operand: flag('reasoning') },
+      right: flag('open_weights'),
+    });
+  });
+
+  test('parentheses group', () => {
+    expect(parseFilter('not (reasoning or open_weights)')).toEqual({
+      type: 'not',
+      operand: {
+        type: 'or',
+        left: flag('reasoning'),
+        right: flag('open_weights'),
+      },
+    });
+  });
+
+  test('keywords are case-insensitive and == is =', () => {
+    expect(parseFilter('NOT reasoning AND provider == "openai"')).toEqual(
+      parseFilter('not reasoning and provider = "openai"')
+    );
+  });
+});
+
+describe('compileFilter', () => {
+  test('applies precedence when evaluating', () => {
+    expect(matching('open_weights or reasoning and cost.input > 10')).toEqual([
+      'anthropic:claude-opus-4',
+      'deepseek:deepseek-r1',
+    ]);
+    expect(matching('(open_weights or reasoning) and cost.input > 10')).toEqual(
+      ['anthropic:claude-opus-4']
+    );
+  });
+
+  test('negates with not', () => {
+    expect(matching('not reasoning')).toEqual(['openai:gpt-4o-mini']);
+    expect(matching('not not reasoning')).toEqual([
+      'anthropic:claude-opus-4',
+      'deepseek:deepseek-r1',
+    ]);
+    expect(matching('not modalities.input has image')).toEqual([
+      'deepseek:deepseek-r1',
+    ]);
+  });
+
+  test('has matches whole list items, ignoring case', () => {
+    expect(matching('modalities.input has IMAGE')).toEqual([
+      'anthropic:claude-opus-4',
+      'openai:gpt-4o-mini',
+    ]);
+    expect(matching('modalities.input has "pdf"')).toEqual([
+      'anthropic:claude-opus-4',
+    ]);
+    expect(matching('modalities.input has imag')).toEqual([]);
+  });
+
+  test('has matches substrings of text fields', () => {
+    expect(matching('name has opus')).toEqual(['anthropic:claude-opus-4']);
+  });
+
+  test('compares dates, also partial and quoted ones', () => {
+    expect(matching('release_date >= 2025-01-01')).toEqual([
+      'anthropic:claude-opus-4',
+      'deepseek:deepseek-r1',
+    ]);
+    expect(matching('release_date < 2025-02')).toEqual([
+      'openai:gpt-4o-mini',
+      'deepseek:deepseek-r1',
+    ]);
+    expect(matching('release_date = "2024-07-18"')).toEqual([
+      'openai:gpt-4o-mini',
+    ]);
+  });
+
+  test('never matches models without the field', () => {
+    expect(matching('cost.cache_read < 1')).toEqual(['openai:gpt-4o-mini']);
+    expect(matching('cost.cache_read >= 1')).toEqual([
+      'anthropic:claude-opus-4',
+    ]);
+  });
+});
+
+// Positions are given as the text they point at, or null for the end of
+// the expression
+describe('syntax errors', () => {
+  test.each([
+    ['', 'Empty filter', null],
+    ['reasoning and', 'Expected a field name or (', null],
+    ['colour = "red"', "Unknown field 'colour'", 'colour'],
+    ['limit.context > big', "Expected a number for 'limit.context'", 'big'],
+    [
+      'release_date > 2025-13-45',
+      "Expected a date (YYYY-MM-DD) for 'release_date'",
+      '2025-13-45',
+    ],
+    ['name < "a"', "Operator '<' cannot be used with string field 'name'", '<'],
+    [
+      'modalities.input = image',
+      "Use 'has' to test list field 'modalities.input'",
+      '=',
+    ],
+    [
+      'reasoning has x',
+      "'has' cannot be used with boolean field 'reasoning'",
+      'reasoning',
+    ],
+    ['(reasoning or open_weights', "Expected ')'", null],
+    ['reasoning open_weights', "Unexpected 'open_weights'", 'open_weights'],
+    ['name = "opus', 'Unterminated string', '"opus'],
+    ['cost.input > 1 & reasoning', "Unexpected character '&'", '&'],
+  ])('%p', (source, message, at) => {
+    const position = (at === null ? source.length : source.indexOf(at)) + 1;
+    const error = syntaxError(source);
+    expect(error.message).toStartWith(message);
+    expect(error.message).toEndWith(` at position ${position}`);
+    expect(error.position).toBe(position);
+  });
+});
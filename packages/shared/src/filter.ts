@@ -0,0 +1,468 @@
+import type { Model } from './types';
+
+// Filter expressions over model fields, e.g.
+//   cost.cache_read < 0.1 or limit.input >= 400000
+//   modalities.input has image and not open_weights
+//   release_date >= 2025-01-01 and provider = "anthropic"
+// Expressions are parsed and type-checked once, then evaluated per model.
+
+type FieldKind = 'number' | 'string' | 'boolean' | 'date' | 'list';
+
+const COST_FIELDS = [
+  'input',
+  'output',
+  'reasoning',
+  'cache_read',
+  'cache_write',
+  'input_audio',
+  'output_audio',
+];
+
+// Fields of the Model type that expressions may reference
+export const FILTER_FIELDS: Record<string, FieldKind> = {
+  id: 'string',
+  provider: 'string',
+  name: 'string',
+  family: 'string',
+  status: 'string',
+  release_date: 'date',
+  last_updated: 'date',
+  knowledge: 'date',
+  attachment: 'boolean',
+  reasoning: 'boolean',
+  temperature: 'boolean',
+  tool_call: 'boolean',
+  open_weights: 'boolean',
+  structured_output: 'boolean',
+  'limit.context': 'number',
+  'limit.input': 'number',
+  'limit.output': 'number',
+  'modalities.input': 'list',
+  'modalities.output': 'list',
+  ...Object.fromEntries(
+    COST_FIELDS.flatMap((name) => [
+      [`cost.${name}`, 'number'],
+      [`cost.context_over_200k.${name}`, 'number'],
+    ])
+  ),
+};
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type FilterLiteral =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'date'; value: number };
+
+export type FilterExpression =
+  | { type: 'and' | 'or'; left: FilterExpression; right: FilterExpression }
+  | { type: 'not'; operand: FilterExpression }
+  | {
+      type: 'compare';
+      field: string;
+      operator: ComparisonOperator;
+      value: FilterLiteral;
+    }
+  // List membership, or a case-insensitive substring for text fields
+  | { type: 'has'; field: string; value: string }
+  // A boolean field on its own, e.g. `reasoning`
+  | { type: 'flag'; field: string };
+
+export class FilterSyntaxError extends Error {
+  // 1-based character position of the problem in the expression
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'FilterSyntaxError';
+    this.position = position;
+  }
+}
+
+// Tokenizer
+
+type TokenType = 'word' | 'number' | 'date' | 'string' | 'operator' | 'paren';
+
+type Token = { type: TokenType; text: string; position: number };
+
+const WHITESPACE = /\s/;
+const OPERATOR = /^(?:<=|>=|!=|==|=|<|>)/;
+const DATE = /^\d{4}-\d{2}(?:-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)?)?/;
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i;
+const WORD = /^[A-Za-z_][\w.:/-]*/;
+
+const TOKEN_PATTERNS: [TokenType, RegExp][] = [
+  ['operator', OPERATOR],
+  ['date', DATE],
+  ['number', NUMBER],
+  ['word', WORD],
+];
+
+// Quoted string starting at `start`; returns the token and the index after it
+function readString(source: string, start: number): [Token, number] {
+  const quote = source[start];
+  let text = '';
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === '\\' && i + 1 < source.length) {
+      i++;
+    }
+    text += source[i];
+    i++;
+  }
+  if (i >= source.length) {
+    throw new FilterSyntaxError('Unterminated string', start + 1);
+  }
+  return [{ type: 'string', text, position: start + 1 }, i + 1];
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (WHITESPACE.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', text: char, position: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const [token, next] = readString(source, i);
+      tokens.push(token);
+      i = next;
+      continue;
+    }
+    const rest = source.slice(i);
+    const match = TOKEN_PATTERNS.map(
+      ([type, pattern]) => [type, pattern.exec(rest)?.[0]] as const
+    ).find(([, text]) => text);
+    if (!match?.[1]) {
+      throw new FilterSyntaxError(`Unexpected character '${char}'`, i + 1);
+    }
+    tokens.push({ type: match[0], text: match[1], position: i + 1 });
+    i += match[1].length;
+  }
+  return tokens;
+}
+
+// Literal readers per field kind, with a description for error messages
+
+type LiteralReader = (token: Token) => FilterLiteral | undefined;
+
+function readText(token: Token): FilterLiteral | undefined {
+  return token.type === 'paren' || token.type === 'operator'
+    ? undefined
+    : { kind: 'string', value: token.text.toLowerCase() };
+}
+
+const LITERAL_READERS: Record<FieldKind, [string, LiteralReader]> = {
+  number: [
+    'a number',
+    (token) =>
+      token.type === 'number'
+        ? { kind: 'number', value: Number(token.text) }
+        : undefined,
+  ],
+  boolean: [
+    'true or false',
+    (token) => {
+      const text = token.text.toLowerCase();
+      return token.type === 'word' && (text === 'true' || text === 'false')
+        ? { kind: 'boolean', value: text === 'true' }
+        : undefined;
+    },
+  ],
+  date: [
+    'a date (YYYY-MM-DD)',
+    (token) => {
+      const time =
+        token.type === 'date' || token.type === 'string'
+          ? new Date(token.text).getTime()
+          : Number.NaN;
+      return Number.isNaN(time) ? undefined : { kind: 'date', value: time };
+    },
+  ],
+  string: ['a text value', readText],
+  list: ['a text value', readText],
+};
+
+// Parser: or > and > not > comparison, with parentheses for grouping
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'has', 'true', 'false']);
+
+class Parser {
+  private readonly tokens: Token[];
+  private readonly end: number;
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+    this.end = source.length + 1;
+  }
+
+  parse(): FilterExpression {
+    if (!this.tokens.length) {
+      throw new FilterSyntaxError('Empty filter', 1);
+    }
+    const expression = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new FilterSyntaxError(`Unexpected '${extra.text}'`, extra.position);
+    }
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new FilterSyntaxError(`Expected ${expected}`, this.end);
+    }
+    this.index++;
+    return token;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'word' && token.text.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('and')) {
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterExpression {
+    if (this.acceptKeyword('not')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterExpression {
+    const token = this.next('a field name or (');
+    if (token.type === 'paren' && token.text === '(') {
+      const expression = this.parseOr();
+      const close = this.next("')'");
+      if (close.text !== ')') {
+        throw new FilterSyntaxError(
+          `Expected ')' but found '${close.text}'`,
+          close.position
+        );
+      }
+      return expression;
+    }
+    if (token.type !== 'word' || KEYWORDS.has(token.text.toLowerCase())) {
+      throw new FilterSyntaxError(
+        `Expected a field name but found '${token.text}'`,
+        token.position
+      );
+    }
+    return this.parseCondition(token);
+  }
+
+  private parseCondition(fieldToken: Token): FilterExpression {
+    const field = fieldToken.text;
+    const kind = FILTER_FIELDS[field];
+    if (!kind) {
+      throw new FilterSyntaxError(
+        `Unknown field '${field}'`,
+        fieldToken.position
+      );
+    }
+
+    if (this.acceptKeyword('has')) {
+      return this.parseHas(field, kind, fieldToken);
+    }
+    const operator = this.peek();
+    if (operator?.type !== 'operator') {
+      if (kind === 'boolean') {
+        return { type: 'flag', field };
+      }
+      throw new FilterSyntaxError(
+        `Expected a comparison operator or 'has' after '${field}'`,
+        operator?.position ?? this.end
+      );
+    }
+    this.index++;
+    const op = (
+      operator.text === '==' ? '=' : operator.text
+    ) as ComparisonOperator;
+    if (
+      (kind === 'boolean' || kind === 'string') &&
+      op !== '=' &&
+      op !== '!='
+    ) {
+      throw new FilterSyntaxError(
+        `Operator '${op}' cannot be used with ${kind} field '${field}'`,
+        operator.position
+      );
+    }
+    if (kind === 'list') {
+      throw new FilterSyntaxError(
+        `Use 'has' to test list field '${field}'`,
+        operator.position
+      );
+    }
+    return {
+      type: 'compare',
+      field,
+      operator: op,
+      value: this.parseLiteral(field, kind),
+    };
+  }
+
+  private parseHas(
+    field: string,
+    kind: FieldKind,
+    fieldToken: Token
+  ): FilterExpression {
+    if (kind !== 'list' && kind !== 'string') {
+      throw new FilterSyntaxError(
+        `'has' cannot be used with ${kind} field '${field}'`,
+        fieldToken.position
+      );
+    }
+    const token = this.next('a value');
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new FilterSyntaxError(
+        `Expected a text value but found '${token.text}'`,
+        token.position
+      );
+    }
+    return { type: 'has', field, value: token.text.toLowerCase() };
+  }
+
+  private parseLiteral(field: string, kind: FieldKind): FilterLiteral {
+    const token = this.next('a value');
+    const [expected, read] = LITERAL_READERS[kind];
+    const literal = read(token);
+    if (!literal) {
+      throw new FilterSyntaxError(
+        `Expected ${expected} for '${field}' but found '${token.text}'`,
+        token.position
+      );
+    }
+    return literal;
+  }
+}
+
+export function parseFilter(source: string): FilterExpression {
+  return new Parser(source).parse();
+}
+
+// Evaluation
+
+function readField(model: Model, field: string): unknown {
+  let value: unknown = model;
+  for (const part of field.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function comparable(
+  value: unknown,
+  literal: FilterLiteral
+): Scalar | undefined {
+  if (literal.kind === 'date') {
+    const time =
+      typeof value === 'string' ? new Date(value).getTime() : Number.NaN;
+    return Number.isNaN(time) ? undefined : time;
+  }
+  if (literal.kind === 'string') {
+    return typeof value === 'string' ? value.toLowerCase() : undefined;
+  }
+  return typeof value === literal.kind ? (value as Scalar) : undefined;
+}
+
+type Scalar = number | string | boolean;
+
+const OPERATORS: Record<ComparisonOperator, (a: Scalar, b: Scalar) => boolean> =
+  {
+    '=': (a, b) => a === b,
+    '!=': (a, b) => a !== b,
+    '<': (a, b) => a < b,
+    '<=': (a, b) => a <= b,
+    '>': (a, b) => a > b,
+    '>=': (a, b) => a >= b,
+  };
+
+// Models without a value for the field never match a comparison
+function compare(
+  value: unknown,
+  operator: ComparisonOperator,
+  literal: FilterLiteral
+): boolean {
+  const actual = comparable(value, literal);
+  return actual !== undefined && OPERATORS[operator](actual, literal.value);
+}
+
+function has(value: unknown, needle: string): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => String(item).toLowerCase() === needle);
+  }
+  return typeof value === 'string' && value.toLowerCase().includes(needle);
+}
+
+export function evaluateFilter(
+  expression: FilterExpression,
+  model: Model
+): boolean {
+  switch (expression.type) {
+    case 'and':
+      return (
+        evaluateFilter(expression.left, model) &&
+        evaluateFilter(expression.right, model)
+      );
+    case 'or':
+      return (
+        evaluateFilter(expression.left, model) ||
+        evaluateFilter(expression.right, model)
+      );
+    case 'not':
+      return !evaluateFilter(expression.operand, model);
+    case 'has':
+      return has(readField(model, expression.field), expression.value);
+    case 'flag':
+      return readField(model, expression.field) === true;
+    default:
+      return compare(
+        readField(model, expression.field),
+        expression.operator,
+        expression.value
+      );
+  }
+}
+
+// Parse once and return a predicate; throws FilterSyntaxError
+export function compileFilter(source: string): (model: Model) => boolean {
+  const expression = parseFilter(source);
+  return (model) => evaluateFilter(expression, model);
+}
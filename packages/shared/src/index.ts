@@ -1,6 +1,145 @@
 // Barrel file exports - public API surface for consumers
 // Consider importing directly from './loader' internally for finer-grained tree shaking
 
-export type { Model, Provider } from './loader';
+export type { FieldComparison, ModelComparison } from './compare';
 /* biome-ignore lint/performance/noBarrelFile: Public API re-export for consumers */
+export {
+  compareModels,
+  MAX_COMPARE_MODELS,
+  parseCompareIds,
+} from './compare';
+export type {
+  Completion,
+  CompletionCatalog,
+  CompletionContext,
+  CompletionRef,
+} from './completions';
+export {
+  CompletionError,
+  completeArgument,
+  MAX_COMPLETIONS,
+} from './completions';
+export type { ApiShape, ModelConnection } from './connection';
+export { resolveConnection } from './connection';
+export type { Cursor, CursorKey, CursorPage } from './cursor';
+export {
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  pageByCursor,
+} from './cursor';
+export type {
+  CostEstimate,
+  TokenUsage,
+  UsageField,
+} from './estimate';
+export {
+  estimateCost,
+  estimateModels,
+  promptTokens,
+  totalTokens,
+  USAGE_FIELDS,
+} from './estimate';
+export type {
+  ComparisonOperator,
+  FilterExpression,
+  FilterLiteral,
+} from './filter';
+export {
+  compileFilter,
+  evaluateFilter,
+  FILTER_FIELDS,
+  FilterSyntaxError,
+  parseFilter,
+} from './filter';
+export type { LoadOptions, LoadResult } from './loader';
 export { loadDB } from './loader';
+export type { OutputFormat, RenderedResults } from './output';
+export {
+  continuationNote,
+  DEFAULT_MAX_TOKENS,
+  estimateTokens,
+  MIN_MAX_TOKENS,
+  OUTPUT_FORMATS,
+  renderModelResults,
+  renderModels,
+  renderProviderResults,
+  renderProviders,
+} from './output';
+export type {
+  PromptArgument,
+  PromptArguments,
+  PromptCatalog,
+  PromptDefinition,
+  PromptMessage,
+  PromptResult,
+} from './prompts';
+export { getPrompt, PROMPTS, PromptError } from './prompts';
+export type {
+  ModelFilters,
+  ModelQuery,
+  ModelSortField,
+  Pagination,
+  ProviderQuery,
+  ProviderSortField,
+  QueryResult,
+  SortOrder,
+} from './query';
+export {
+  filterModels,
+  filterProviders,
+  MODEL_SORT_FIELDS,
+  modelCursorAfter,
+  modelKeyFields,
+  PROVIDER_SORT_FIELDS,
+  paginate,
+  parseModelFilters,
+  parseModelQuery,
+  parseProviderQuery,
+  providerCursorAfter,
+  queryModels,
+  queryProviders,
+  selectFields,
+  sortModels,
+  toQueryParams,
+} from './query';
+export type { CatalogResource, ResourceRef } from './resources';
+export {
+  MODEL_URI_TEMPLATE,
+  matchesModelRef,
+  modelName,
+  modelResource,
+  modelUri,
+  PROVIDER_URI_TEMPLATE,
+  parseResourceUri,
+  providerResource,
+  providerUri,
+  RESOURCE_MIME_TYPE,
+} from './resources';
+export type { SearchFields, SearchIndex } from './search';
+export {
+  buildSearchIndex,
+  MODEL_SEARCH_FIELDS,
+  PROVIDER_SEARCH_FIELDS,
+  registerSearchIndex,
+  search,
+  searchIndex,
+  tokenize,
+} from './search';
+export type { SuggestionIndex, Suggestions } from './suggest';
+export { buildSuggestionIndex, suggest } from './suggest';
+export {
+  formatTokens,
+  summarizeComparison,
+  summarizeList,
+  summarizeModel,
+  summarizeProvider,
+} from './summary';
+export type {
+  Model,
+  ModelCost,
+  ModelProviderOverride,
+  Provider,
+} from './types';
+export type { DataIssue, DataReport, SkippedEntry } from './validate';
+export { DataValidationError, formatIssues } from './validate';
@@ -1,46 +1,124 @@
 import fs from 'node:fs/promises';
+import path from 'node:path';
 import { parse } from '@iarna/toml';
 import { glob } from 'glob';
+import type { Model, Provider } from './types';
+import {
+  checkModel,
+  checkProvider,
+  type DataIssue,
+  DataValidationError,
+  parseIssue,
+  type SkippedEntry,
+} from './validate';
 
-export type Model = {
-  id: string;
-  name?: string;
-  provider: string;
-  modalities?: { input?: string[]; output?: string[] };
-  context?: number;
-  tool_call?: boolean;
-  reasoning?: boolean;
-  cost?: Record<string, unknown>;
-  [k: string]: unknown;
+export type { Model, Provider } from './types';
+
+export type LoadOptions = {
+  // Skip invalid entries instead of throwing a DataValidationError
+  lenient?: boolean;
+};
+
+export type LoadResult = {
+  models: Model[];
+  providers: Provider[];
+  errors: DataIssue[];
+  // Entries left out because they couldn't be read, parsed or validated
+  skipped: SkippedEntry[];
 };
 
-export type Provider = { id: string; name?: string; [k: string]: unknown };
+// Parse a TOML file, or record it as skipped and return undefined. A file
+// that can't be read at all (e.g. a symlink whose upstream target is gone)
+// has nothing to validate, so it is skipped without a DataIssue and does
+// not fail strict mode
+async function readTOML(
+  root: string,
+  entry: SkippedEntry,
+  result: LoadResult
+): Promise<Record<string, unknown> | undefined> {
+  let text: string;
+  try {
+    text = await fs.readFile(`${root}/${entry.file}`, 'utf8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    result.skipped.push({ ...entry, reason });
+    return;
+  }
+  try {
+    return parse(text);
+  } catch (error) {
+    result.errors.push(parseIssue(entry.file, error));
+    result.skipped.push(entry);
+  }
+}
+
+async function loadModels(
+  root: string,
+  providerId: string,
+  result: LoadResult
+) {
+  const modelsDir = `${root}/providers/${providerId}/models`;
+  // glob lists files in no particular order; sort for stable output
+  const modelPaths = (await glob(`${modelsDir}/**/*.toml`)).sort();
+  for (const modelPath of modelPaths) {
+    // Relative to the models dir, since ids may themselves contain `models/`
+    const mid = path.relative(modelsDir, modelPath).replace('.toml', '');
+    const id = `${providerId}:${mid}`;
+    const file = `providers/${providerId}/models/${mid}.toml`;
+    const entry: SkippedEntry = { kind: 'model', id, file };
+    const data = await readTOML(root, entry, result);
+    if (!data) {
+      continue;
+    }
+    const issues = checkModel(file, mid, data);
+    if (issues.length) {
+      result.errors.push(...issues);
+      result.skipped.push(entry);
+      continue;
+    }
+    // The id comes from the file path; an `id` in the file is ignored
+    const { id: _id, provider: override, ...m } = data;
+    result.models.push({
+      id,
+      provider: providerId,
+      ...m,
+      ...(override ? { provider_override: override } : {}),
+    } as Model);
+  }
+}
 
 export async function loadDB(
-  root = '../../../vendor/models.dev'
-): Promise<{ models: Model[]; providers: Provider[] }> {
-  const providers: Provider[] = [];
-  const models: Model[] = [];
+  root = '../../../vendor/models.dev',
+  { lenient = false }: LoadOptions = {}
+): Promise<LoadResult> {
+  const result: LoadResult = {
+    models: [],
+    providers: [],
+    errors: [],
+    skipped: [],
+  };
 
-  for (const provPath of await glob(`${root}/providers/*/provider.toml`)) {
+  const provPaths = (await glob(`${root}/providers/*/provider.toml`)).sort();
+  for (const provPath of provPaths) {
     const providerId = provPath.split('/providers/')[1].split('/')[0];
-    const prov = parse(await fs.readFile(provPath, 'utf8')) as Omit<
-      Provider,
-      'id'
-    >;
-    providers.push({ id: providerId, ...prov });
-
-    for (const modelPath of await glob(
-      `${root}/providers/${providerId}/models/*.toml`
-    )) {
-      const mid = modelPath.split('/models/')[1].replace('.toml', '');
-      const m = parse(await fs.readFile(modelPath, 'utf8')) as Omit<
-        Model,
-        'id' | 'provider'
-      >;
-      const id = `${providerId}:${mid}`;
-      models.push({ id, provider: providerId, ...m });
+    const file = `providers/${providerId}/provider.toml`;
+    const entry: SkippedEntry = { kind: 'provider', id: providerId, file };
+    const prov = await readTOML(root, entry, result);
+    if (!prov) {
+      continue;
     }
+    const issues = checkProvider(file, providerId, prov);
+    if (issues.length) {
+      result.errors.push(...issues);
+      result.skipped.push(entry);
+      continue;
+    }
+    result.providers.push({ id: providerId, ...prov } as Provider);
+    await loadModels(root, providerId, result);
+  }
+
+  if (result.errors.length && !lenient) {
+    throw new DataValidationError(result.errors);
   }
-  return { models, providers };
+  return result;
 }
@@ -0,0 +1,246 @@
+import { formatTokens } from './summary';
+import type { Model, Provider } from './types';
+
+// Text renderings of MCP search results sized for a model's context window:
+// a compact pipe-separated table, a markdown table or plain JSON, cut to a
+// token budget with a note on what was left out and where to continue.
+
+export const OUTPUT_FORMATS = ['compact_table', 'markdown', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const DEFAULT_MAX_TOKENS = 4000;
+// Enough for the header, a row or two and the continuation note
+export const MIN_MAX_TOKENS = 200;
+
+// Rough, tokenizer-independent estimate: English text and JSON average
+// about four characters per token
+const CHARS_PER_TOKEN = 4;
+// Headroom for the continuation note, whose cursor isn't known while fitting
+const CONTINUATION_TOKENS = 50;
+// Providers named when summarizing omitted models or providers
+const OMITTED_PROVIDERS_SHOWN = 3;
+const OMITTED_PROVIDER_IDS_SHOWN = 10;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+type Column<T> = {
+  header: string;
+  value: (item: T) => string | number | undefined;
+};
+
+const CAPABILITIES: [keyof Model, string][] = [
+  ['reasoning', 'reasoning'],
+  ['tool_call', 'tools'],
+  ['structured_output', 'structured'],
+  ['attachment', 'attachments'],
+  ['open_weights', 'open weights'],
+];
+
+const joined = (values: string[] | undefined) => values?.join(',') || undefined;
+const tokens = (count: number | undefined) =>
+  count === undefined ? undefined : formatTokens(count);
+
+// Only columns with a value in some row are shown, so `fields` selections
+// and relevance scores shape the table
+const MODEL_COLUMNS: Column<Partial<Model>>[] = [
+  { header: 'id', value: (m) => m.id },
+  { header: 'name', value: (m) => m.name },
+  { header: 'in $/1M', value: (m) => m.cost?.input },
+  { header: 'out $/1M', value: (m) => m.cost?.output },
+  { header: 'cache read $/1M', value: (m) => m.cost?.cache_read },
+  { header: 'context', value: (m) => tokens(m.limit?.context) },
+  { header: 'max output', value: (m) => tokens(m.limit?.output) },
+  { header: 'input', value: (m) => joined(m.modalities?.input) },
+  { header: 'output', value: (m) => joined(m.modalities?.output) },
+  {
+    header: 'capabilities',
+    value: (m) =>
+      joined(CAPABILITIES.filter(([field]) => m[field]).map(([, l]) => l)),
+  },
+  { header: 'knowledge', value: (m) => m.knowledge },
+  { header: 'released', value: (m) => m.release_date },
+  { header: 'status', value: (m) => m.status as string | undefined },
+  {
+    header: 'score',
+    value: (m) =>
+      typeof m.score === 'number' ? Number(m.score.toFixed(2)) : undefined,
+  },
+];
+
+const PROVIDER_COLUMNS: Column<Provider>[] = [
+  { header: 'id', value: (p) => p.id },
+  { header: 'name', value: (p) => p.name },
+  { header: 'env', value: (p) => joined(p.env) },
+  { header: 'npm', value: (p) => p.npm },
+  { header: 'api', value: (p) => p.api },
+  { header: 'doc', value: (p) => p.doc },
+];
+
+const PIPE = /\|/g;
+
+function cell(value: string | number | undefined): string {
+  return value === undefined ? '' : String(value).replace(PIPE, '\\|');
+}
+
+function renderTable<T>(
+  items: T[],
+  columns: Column<T>[],
+  format: Exclude<OutputFormat, 'json'>
+): string {
+  const rows = items.map((item) => columns.map((c) => c.value(item)));
+  const shown = columns
+    .map((_, i) => i)
+    .filter((i) => rows.some((row) => row[i] !== undefined && row[i] !== ''));
+  const lines = [
+    shown.map((i) => columns[i].header),
+    ...rows.map((row) => shown.map((i) => cell(row[i]))),
+  ];
+  if (format === 'compact_table') {
+    return lines.map((line) => line.join('|')).join('\n');
+  }
+  const markdown = lines.map((line) => `| ${line.join(' | ')} |`);
+  markdown.splice(1, 0, `|${shown.map(() => ' --- ').join('|')}|`);
+  return markdown.join('\n');
+}
+
+export function renderModels(
+  models: Partial<Model>[],
+  format: OutputFormat
+): string {
+  return format === 'json'
+    ? JSON.stringify(models)
+    : renderTable(models, MODEL_COLUMNS, format);
+}
+
+export function renderProviders(
+  providers: Provider[],
+  format: OutputFormat
+): string {
+  return format === 'json'
+    ? JSON.stringify(providers)
+    : renderTable(providers, PROVIDER_COLUMNS, format);
+}
+
+// e.g. "12 more models: 5 from openrouter, 4 from azure and 3 from 2 other
+// providers"
+function describeOmittedModels(models: Partial<Model>[]): string {
+  const counts = new Map<string, number>();
+  for (const model of models) {
+    const provider = model.provider ?? model.id?.split(':')[0] ?? 'unknown';
+    counts.set(provider, (counts.get(provider) ?? 0) + 1);
+  }
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+  const parts = ranked
+    .slice(0, OMITTED_PROVIDERS_SHOWN)
+    .map(([provider, count]) => `${count} from ${provider}`);
+  const rest = ranked.slice(OMITTED_PROVIDERS_SHOWN);
+  if (rest.length) {
+    const count = rest.reduce((sum, [, n]) => sum + n, 0);
+    parts.push(
+      `${count} from ${rest.length} other provider${rest.length > 1 ? 's' : ''}`
+    );
+  }
+  const list =
+    parts.length > 1
+      ? `${parts.slice(0, -1).join(', ')} and ${parts.at(-1)}`
+      : parts[0];
+  return `${models.length} more models: ${list}`;
+}
+
+function describeOmittedProviders(providers: Provider[]): string {
+  const ids = providers.slice(0, OMITTED_PROVIDER_IDS_SHOWN).map((p) => p.id);
+  const rest = providers.length - ids.length;
+  return `${providers.length} more providers: ${ids.join(', ')}${rest ? ` and ${rest} others` : ''}`;
+}
+
+export type RenderedResults = {
+  text: string;
+  // Leading items that fit the budget; the rest of the page was left out
+  shown: number;
+};
+
+type ResultsOptions = {
+  total: number;
+  format: OutputFormat;
+  maxTokens: number;
+};
+
+// The longest prefix of `items` whose rendering fits the budget, never
+// fewer than one item so that continuing always makes progress
+function fitResults<T>(
+  items: T[],
+  render: (shown: number) => string,
+  maxTokens: number
+): RenderedResults {
+  const budget = maxTokens - CONTINUATION_TOKENS;
+  let low = Math.min(items.length, 1);
+  let high = items.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(render(mid)) <= budget) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { text: render(low), shown: low };
+}
+
+function resultsText(
+  header: string,
+  body: string,
+  omitted: string | undefined,
+  maxTokens: number
+): string {
+  const note = omitted
+    ? `\n\n${omitted} left out to stay within ${maxTokens} tokens.`
+    : '';
+  return `${header}\n${body}${note}`;
+}
+
+export function renderModelResults(
+  models: Partial<Model>[],
+  { total, format, maxTokens }: ResultsOptions
+): RenderedResults {
+  return fitResults(
+    models,
+    (shown) =>
+      resultsText(
+        `Found ${total} AI models matching your criteria, showing ${shown}:`,
+        renderModels(models.slice(0, shown), format),
+        shown < models.length
+          ? describeOmittedModels(models.slice(shown))
+          : undefined,
+        maxTokens
+      ),
+    maxTokens
+  );
+}
+
+export function renderProviderResults(
+  providers: Provider[],
+  { total, format, maxTokens }: ResultsOptions
+): RenderedResults {
+  return fitResults(
+    providers,
+    (shown) =>
+      resultsText(
+        `Found ${total} AI model providers matching your criteria, showing ${shown}:`,
+        renderProviders(providers.slice(0, shown), format),
+        shown < providers.length
+          ? describeOmittedProviders(providers.slice(shown))
+          : undefined,
+        maxTokens
+      ),
+    maxTokens
+  );
+}
+
+// Appended to a rendering when more results follow
+export function continuationNote(tool: string, cursor: string | null): string {
+  return cursor
+    ? `\n\nMore results: call ${tool} again with the same arguments and cursor "${cursor}".`
+    : '';
+}
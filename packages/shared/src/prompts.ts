@@ -0,0 +1,382 @@
+import {
+  type CostEstimate,
+  estimateCost,
+  type TokenUsage,
+  totalTokens,
+  USAGE_FIELDS,
+} from './estimate';
+import type { ModelQuery } from './query';
+import type { Model } from './types';
+
+// MCP prompts for common model-selection workflows. Each one embeds the slice
+// of the catalog it needs, so the assistant answers from current data rather
+// than from what it remembers about models and prices.
+
+export type PromptArgument = {
+  name: string;
+  description: string;
+  required?: boolean;
+};
+
+export type PromptDefinition = {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+};
+
+export type PromptMessage = {
+  role: 'user';
+  content: { type: 'text'; text: string };
+};
+
+export type PromptResult = {
+  description: string;
+  messages: PromptMessage[];
+};
+
+// Prompt arguments always arrive as strings
+export type PromptArguments = Record<string, string | undefined>;
+
+// Where prompts read the catalog from: the bundled data or the HTTP API
+export type PromptCatalog = {
+  models(query: ModelQuery): Promise<Partial<Model>[]>;
+  model(id: string): Promise<Model | null>;
+};
+
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+const CANDIDATE_LIMIT = 30;
+const REPLACEMENT_LIMIT = 20;
+// Models fetched per embedded one, leaving room for deprecated models that
+// the query can't exclude
+const FETCH_FACTOR = 2;
+const MAX_ESTIMATE_MODELS = 10;
+
+// Enough of each model to weigh it up, without the provider boilerplate
+const SUMMARY_FIELDS = [
+  'id',
+  'name',
+  'family',
+  'release_date',
+  'knowledge',
+  'status',
+  'reasoning',
+  'tool_call',
+  'structured_output',
+  'attachment',
+  'open_weights',
+  'cost',
+  'limit',
+  'modalities',
+];
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'choose_model',
+    title: 'Choose a Model',
+    description:
+      'Recommend a model for a task from the current catalog, within optional price, context, modality and provider constraints',
+    arguments: [
+      {
+        name: 'task',
+        description: 'What the model will be used for',
+        required: true,
+      },
+      {
+        name: 'provider',
+        description: 'Only consider this provider (e.g., anthropic)',
+      },
+      {
+        name: 'modalities',
+        description:
+          'Comma-separated modalities the model must support (e.g., image,pdf)',
+      },
+      {
+        name: 'max_input_cost',
+        description: 'Maximum input price in USD per 1M tokens',
+      },
+      {
+        name: 'min_context',
+        description: 'Minimum context window in tokens',
+      },
+    ],
+  },
+  {
+    name: 'migrate_model',
+    title: 'Migrate off a Model',
+    description:
+      'Plan the move from a deprecated or outdated model to a current one from the same provider',
+    arguments: [
+      {
+        name: 'model',
+        description: 'ID of the model to migrate from (e.g., openai:gpt-4)',
+        required: true,
+      },
+    ],
+  },
+  {
+    name: 'estimate_spend',
+    title: 'Estimate Monthly Spend',
+    description:
+      'Estimate and compare the monthly cost of models for a per-request token workload, priced like /v1/estimate',
+    arguments: [
+      {
+        name: 'models',
+        description: `Comma-separated model IDs, at most ${MAX_ESTIMATE_MODELS}`,
+        required: true,
+      },
+      // The token counts of /v1/estimate; at least one is required
+      ...USAGE_FIELDS.map((kind) => ({
+        name: `${kind}_tokens`,
+        description: `Number of ${kind.replace('_', ' ')} tokens per request`,
+      })),
+      {
+        name: 'requests_per_month',
+        description: 'Requests per month (default 1)',
+      },
+    ],
+  },
+];
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function toJSON(value: unknown): string {
+  return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseAmount(args: PromptArguments, name: string): number | undefined {
+  const value = args[name]?.trim();
+  if (!value) {
+    return;
+  }
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new PromptError(`${name} must be a non-negative number`);
+  }
+  return amount;
+}
+
+function isCurrent(model: Partial<Model>): boolean {
+  return model.status !== 'deprecated';
+}
+
+async function chooseModel(
+  args: PromptArguments,
+  catalog: PromptCatalog
+): Promise<PromptResult> {
+  const modalities = splitList(args.modalities);
+  const query: ModelQuery = {
+    provider: args.provider?.trim() || undefined,
+    modalities: modalities.length ? modalities : undefined,
+    max_input_cost: parseAmount(args, 'max_input_cost'),
+    min_context: parseAmount(args, 'min_context'),
+  };
+  const constraints = [
+    query.provider && `provider ${query.provider}`,
+    query.modalities?.length && `supports ${query.modalities.join(', ')}`,
+    query.max_input_cost !== undefined &&
+      `input price at most $${query.max_input_cost} per 1M tokens`,
+    query.min_context !== undefined &&
+      `context window of at least ${query.min_context} tokens`,
+  ].filter(Boolean);
+
+  const candidates = (
+    await catalog.models({
+      ...query,
+      sort: 'release_date',
+      order: 'desc',
+      fields: SUMMARY_FIELDS,
+      limit: CANDIDATE_LIMIT * FETCH_FACTOR,
+    })
+  )
+    .filter(isCurrent)
+    .slice(0, CANDIDATE_LIMIT);
+  if (!candidates.length) {
+    throw new PromptError('No models match the given constraints');
+  }
+
+  return {
+    description: 'Choose a model for a task',
+    messages: [
+      userMessage(
+        [
+          `I need to choose an AI model for this task: ${args.task}`,
+          constraints.length ? `Constraints: ${constraints.join('; ')}.` : '',
+          `These are the ${candidates.length} most recently released models in the catalog that meet them (prices in USD per 1M tokens):`,
+          toJSON(candidates),
+          'Recommend the best fit and up to two alternatives from this list, by ID, and explain the trade-offs between capability, context size and price.',
+        ]
+          .filter(Boolean)
+          .join('\n\n')
+      ),
+    ],
+  };
+}
+
+async function migrateModel(
+  args: PromptArguments,
+  catalog: PromptCatalog
+): Promise<PromptResult> {
+  const id = args.model?.trim() ?? '';
+  const model = await catalog.model(id);
+  if (!model) {
+    throw new PromptError(`AI model with ID '${id}' not found`);
+  }
+  const replacements = (
+    await catalog.models({
+      provider: model.provider,
+      sort: 'release_date',
+      order: 'desc',
+      fields: SUMMARY_FIELDS,
+      limit: REPLACEMENT_LIMIT * FETCH_FACTOR,
+    })
+  )
+    .filter((m) => m.id !== model.id && isCurrent(m))
+    .slice(0, REPLACEMENT_LIMIT);
+
+  const state = isCurrent(model) ? '' : ', which is deprecated';
+  return {
+    description: `Migrate off ${model.id}`,
+    messages: [
+      userMessage(
+        [
+          `I need to migrate off ${model.id}${state}. Its catalog entry:`,
+          toJSON(model),
+          replacements.length
+            ? `Current models from ${model.provider}, newest first (prices in USD per 1M tokens):\n\n${toJSON(replacements)}`
+            : `${model.provider} has no other current models in the catalog.`,
+          'Suggest the closest replacement and a cheaper or more capable option if there is one. Compare each with the current model and list what to check when switching: context and output limits, modalities, tool calling, structured output, reasoning and price.',
+        ].join('\n\n')
+      ),
+    ],
+  };
+}
+
+const CENT = 0.01;
+// Enough to show what a single short request costs
+const SUB_CENT_DIGITS = 6;
+
+// Cents, or more digits for amounts under a cent
+const usd = (amount: number) =>
+  `$${amount.toFixed(amount > 0 && amount < CENT ? SUB_CENT_DIGITS : 2)}`;
+
+async function estimateSpend(
+  args: PromptArguments,
+  catalog: PromptCatalog
+): Promise<PromptResult> {
+  const ids = splitList(args.models);
+  if (!ids.length || ids.length > MAX_ESTIMATE_MODELS) {
+    throw new PromptError(
+      `models must list between 1 and ${MAX_ESTIMATE_MODELS} model IDs`
+    );
+  }
+  const usage = Object.fromEntries(
+    USAGE_FIELDS.map((kind) => [kind, parseAmount(args, `${kind}_tokens`) ?? 0])
+  ) as TokenUsage;
+  if (totalTokens(usage) === 0) {
+    throw new PromptError('At least one token count is required');
+  }
+  const requests = parseAmount(args, 'requests_per_month') ?? 1;
+
+  const models = await Promise.all(ids.map((id) => catalog.model(id)));
+  const missing = ids.filter((_, i) => !models[i]);
+  if (missing.length) {
+    throw new PromptError(`AI models not found: ${missing.join(', ')}`);
+  }
+
+  // Priced per request, so that the long-context tier applies exactly when
+  // a single request's prompt is over 200k tokens, as in /v1/estimate
+  const found = models as Model[];
+  const estimates = found
+    .map((model) => estimateCost(model, usage))
+    .filter((e): e is CostEstimate => e !== undefined)
+    .sort((a, b) => a.total - b.total);
+  const unpriced = found
+    .filter((model) => !estimates.some((e) => e.id === model.id))
+    .map((model) => model.id);
+  const fallbacks = estimates.filter((e) => e.fallbacks.length);
+
+  const table = [
+    '| Model | Pricing tier | Per request | Per month |',
+    '| --- | --- | ---: | ---: |',
+    ...estimates.map(
+      (e) =>
+        `| ${e.id} | ${e.tier} | ${usd(e.total)} | ${usd(e.total * requests)} |`
+    ),
+  ].join('\n');
+  const workload = USAGE_FIELDS.filter((kind) => usage[kind])
+    .map((kind) => `${usage[kind]} ${kind.replace('_', ' ')}`)
+    .join(', ');
+
+  return {
+    description: 'Estimate monthly spend',
+    messages: [
+      userMessage(
+        [
+          `Estimate our monthly spend for ${requests} ${requests === 1 ? 'request' : 'requests'} per month of ${workload} tokens each.`,
+          `Estimates from the catalog's prices, cheapest first:\n\n${table}`,
+          unpriced.length
+            ? `No input or output price is listed for: ${unpriced.join(', ')}.`
+            : '',
+          fallbacks.length
+            ? `Billed at the base input or output rate for lack of a dedicated price: ${fallbacks
+                .map((e) => `${e.id} (${e.fallbacks.join(', ')})`)
+                .join('; ')}.`
+            : '',
+          `Their prices in USD per 1M tokens, including any long-context tiers:\n\n${toJSON(
+            Object.fromEntries(found.map((model) => [model.id, model.cost]))
+          )}`,
+          'Summarize the cost differences, point out where long-context pricing or reasoning tokens could raise the bill, and suggest ways to cut spend such as caching or a cheaper model for part of the traffic.',
+        ]
+          .filter(Boolean)
+          .join('\n\n')
+      ),
+    ],
+  };
+}
+
+const BUILDERS: Record<
+  string,
+  (args: PromptArguments, catalog: PromptCatalog) => Promise<PromptResult>
+> = {
+  choose_model: chooseModel,
+  migrate_model: migrateModel,
+  estimate_spend: estimateSpend,
+};
+
+// Rejects with a PromptError for unknown prompts and bad arguments
+export async function getPrompt(
+  name: string,
+  args: PromptArguments,
+  catalog: PromptCatalog
+): Promise<PromptResult> {
+  const definition = PROMPTS.find((p) => p.name === name);
+  const build = BUILDERS[name];
+  if (!(definition && build)) {
+    throw new PromptError(`Unknown prompt: ${name}`);
+  }
+  const missing = definition.arguments.filter(
+    (arg) => arg.required && !args[arg.name]?.trim()
+  );
+  if (missing.length) {
+    throw new PromptError(
+      `Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`
+    );
+  }
+  return await build(args, catalog);
+}
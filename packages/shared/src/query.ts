@@ -0,0 +1,601 @@
+import {
+  type Cursor,
+  type CursorKey,
+  compareKeys,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  pageByCursor,
+  type SortOrder,
+} from './cursor';
+import { compileFilter } from './filter';
+import { MODEL_SEARCH_FIELDS, PROVIDER_SEARCH_FIELDS, search } from './search';
+import type { Model, Provider } from './types';
+
+export type { SortOrder } from './cursor';
+
+// Query engine shared by the REST API and both MCP servers. Filters are
+// typed; `parseModelQuery`/`toQueryParams` convert to and from query strings.
+
+export const MODEL_SORT_FIELDS = [
+  'name',
+  'provider',
+  'release_date',
+  'last_updated',
+  'cost_input',
+  'cost_output',
+  'context_limit',
+  'output_limit',
+  // Best matches for `q` first
+  'relevance',
+] as const;
+
+export type ModelSortField = (typeof MODEL_SORT_FIELDS)[number];
+
+export const PROVIDER_SORT_FIELDS = ['id', 'relevance'] as const;
+
+export type ProviderSortField = (typeof PROVIDER_SORT_FIELDS)[number];
+
+export type ModelFilters = {
+  // Fuzzy search over the id, name, family and provider
+  q?: string;
+  provider?: string;
+  tool_call?: boolean;
+  attachment?: boolean;
+  reasoning?: boolean;
+  temperature?: boolean;
+  open_weights?: boolean;
+  structured_output?: boolean;
+  // USD per 1M tokens
+  min_input_cost?: number;
+  max_input_cost?: number;
+  min_output_cost?: number;
+  max_output_cost?: number;
+  // Tokens
+  min_context?: number;
+  max_context?: number;
+  min_output_limit?: number;
+  max_output_limit?: number;
+  // Every modality must be accepted or produced by the model
+  modalities?: string[];
+  // ISO 8601 dates, inclusive
+  release_after?: string;
+  release_before?: string;
+  updated_after?: string;
+  updated_before?: string;
+  // Expression over model fields, e.g. `cost.cache_read < 0.1 or limit.input >= 400000`
+  filter?: string;
+};
+
+export type Pagination = {
+  // 0 or undefined returns every result
+  limit?: number;
+  offset?: number;
+  // Opaque cursor from a previous page; takes precedence over offset
+  cursor?: string;
+};
+
+export type ModelQuery = ModelFilters &
+  Pagination & {
+    // Defaults to name, also when searching
+    sort?: ModelSortField;
+    order?: SortOrder;
+    // Top-level fields to return
+    fields?: string[];
+  };
+
+export type ProviderQuery = Pagination & {
+  // Fuzzy search over the id and name
+  q?: string;
+  // Defaults to id, also when searching
+  sort?: ProviderSortField;
+  // Substring of a required environment variable
+  env?: string;
+  // Substring of the npm package
+  npm?: string;
+};
+
+export type QueryResult<T> = {
+  // Matches before pagination
+  total: number;
+  items: T[];
+  next_cursor: string | null;
+  prev_cursor: string | null;
+};
+
+export const BOOLEAN_FILTERS = [
+  'tool_call',
+  'attachment',
+  'reasoning',
+  'temperature',
+  'open_weights',
+  'structured_output',
+] as const;
+
+export const NUMBER_FILTERS = [
+  'min_input_cost',
+  'max_input_cost',
+  'min_output_cost',
+  'max_output_cost',
+  'min_context',
+  'max_context',
+  'min_output_limit',
+  'max_output_limit',
+] as const;
+
+export const DATE_FILTERS = [
+  'release_after',
+  'release_before',
+  'updated_after',
+  'updated_before',
+] as const;
+
+type NumberFilter = (typeof NUMBER_FILTERS)[number];
+type DateFilter = (typeof DATE_FILTERS)[number];
+
+type Predicate = (model: Model) => boolean;
+
+// Field each range filter reads, and whether it is a lower or upper bound
+const NUMBER_BOUNDS: Record<
+  NumberFilter,
+  [(m: Model) => number | undefined, 'min' | 'max']
+> = {
+  min_input_cost: [(m) => m.cost?.input, 'min'],
+  max_input_cost: [(m) => m.cost?.input, 'max'],
+  min_output_cost: [(m) => m.cost?.output, 'min'],
+  max_output_cost: [(m) => m.cost?.output, 'max'],
+  min_context: [(m) => m.limit?.context, 'min'],
+  max_context: [(m) => m.limit?.context, 'max'],
+  min_output_limit: [(m) => m.limit?.output, 'min'],
+  max_output_limit: [(m) => m.limit?.output, 'max'],
+};
+
+const DATE_BOUNDS: Record<
+  DateFilter,
+  [(m: Model) => string | undefined, 'min' | 'max']
+> = {
+  release_after: [(m) => m.release_date, 'min'],
+  release_before: [(m) => m.release_date, 'max'],
+  updated_after: [(m) => m.last_updated, 'min'],
+  updated_before: [(m) => m.last_updated, 'max'],
+};
+
+function timestamp(value: string | undefined): number | undefined {
+  if (!value) {
+    return;
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Models without a value for a bounded field never match the bound
+function inRange(
+  value: number | undefined,
+  bound: number | undefined,
+  kind: 'min' | 'max'
+): boolean {
+  if (value === undefined || bound === undefined) {
+    return false;
+  }
+  return kind === 'min' ? value >= bound : value <= bound;
+}
+
+// Relevance of each search match; empty when there is no `q`
+type Scores<T> = ReadonlyMap<T, number>;
+
+function textPredicates(
+  filters: ModelFilters,
+  scores: Scores<Model>
+): Predicate[] {
+  const list: Predicate[] = [];
+  if (filters.q) {
+    list.push((m) => scores.has(m));
+  }
+  if (filters.provider) {
+    list.push((m) => m.provider === filters.provider);
+  }
+  return list;
+}
+
+function rangePredicates(filters: ModelFilters): Predicate[] {
+  const list: Predicate[] = [];
+  for (const key of NUMBER_FILTERS) {
+    const bound = filters[key];
+    if (bound !== undefined) {
+      const [read, kind] = NUMBER_BOUNDS[key];
+      list.push((m) => inRange(read(m), bound, kind));
+    }
+  }
+  for (const key of DATE_FILTERS) {
+    if (filters[key]) {
+      const bound = timestamp(filters[key]);
+      const [read, kind] = DATE_BOUNDS[key];
+      list.push((m) => inRange(timestamp(read(m)), bound, kind));
+    }
+  }
+  return list;
+}
+
+// Compiled once per call; malformed expressions throw a FilterSyntaxError
+function expressionPredicates(filters: ModelFilters): Predicate[] {
+  return filters.filter ? [compileFilter(filters.filter)] : [];
+}
+
+function modalitiesPredicates(filters: ModelFilters): Predicate[] {
+  if (!filters.modalities?.length) {
+    return [];
+  }
+  const requested = filters.modalities.map((m) => m.trim().toLowerCase());
+  return [
+    (m) => {
+      const available = [
+        ...(m.modalities?.input ?? []),
+        ...(m.modalities?.output ?? []),
+      ].map((v) => v.toLowerCase());
+      return requested.every((mod) => available.includes(mod));
+    },
+  ];
+}
+
+function matchModels(
+  models: Model[],
+  filters: ModelFilters
+): { matches: Model[]; scores: Scores<Model> } {
+  const scores: Scores<Model> = filters.q
+    ? search(models, MODEL_SEARCH_FIELDS, filters.q)
+    : new Map();
+  const predicates: Predicate[] = [
+    ...textPredicates(filters, scores),
+    ...BOOLEAN_FILTERS.filter((key) => filters[key] !== undefined).map(
+      (key): Predicate =>
+        (m) =>
+          m[key] === filters[key]
+    ),
+    ...rangePredicates(filters),
+    ...modalitiesPredicates(filters),
+    ...expressionPredicates(filters),
+  ];
+
+  const matches = predicates.length
+    ? models.filter((m) => predicates.every((p) => p(m)))
+    : models;
+  return { matches, scores };
+}
+
+export function filterModels(models: Model[], filters: ModelFilters): Model[] {
+  return matchModels(models, filters).matches;
+}
+
+const SORT_GETTERS: Record<
+  Exclude<ModelSortField, 'relevance'>,
+  (m: Model) => string | number
+> = {
+  name: (m) => (m.name || m.id).toLowerCase(),
+  provider: (m) => m.provider.toLowerCase(),
+  release_date: (m) => timestamp(m.release_date) ?? 0,
+  last_updated: (m) => timestamp(m.last_updated) ?? 0,
+  cost_input: (m) => m.cost?.input || 0,
+  cost_output: (m) => m.cost?.output || 0,
+  context_limit: (m) => m.limit?.context || 0,
+  output_limit: (m) => m.limit?.output || 0,
+};
+
+export function isModelSortField(value: string): value is ModelSortField {
+  return (MODEL_SORT_FIELDS as readonly string[]).includes(value);
+}
+
+// Scores are negated so that ascending order puts the best match first
+function relevanceKey<T extends { id: string }>(
+  scores: Scores<T>
+): (item: T) => CursorKey {
+  return (item) => [-(scores.get(item) ?? 0), item.id];
+}
+
+function modelKey(
+  sortBy: ModelSortField,
+  scores: Scores<Model>
+): (m: Model) => CursorKey {
+  if (sortBy === 'relevance') {
+    return relevanceKey(scores);
+  }
+  const getter = SORT_GETTERS[sortBy];
+  return (m) => [getter(m), m.id];
+}
+
+export function sortModels(
+  models: Model[],
+  sortBy: ModelSortField = 'name',
+  order: SortOrder = 'asc',
+  // Search scores for sorting by relevance
+  scores: Scores<Model> = new Map()
+): Model[] {
+  const keyOf = modelKey(sortBy, scores);
+  return models
+    .map((model) => ({ model, key: keyOf(model) }))
+    .sort((a, b) => compareKeys(a.key, b.key, order))
+    .map(({ model }) => model);
+}
+
+export function paginate<T>(items: T[], { limit, offset }: Pagination): T[] {
+  let page = items;
+  if (offset && offset > 0) {
+    page = page.slice(offset);
+  }
+  if (limit && limit > 0) {
+    page = page.slice(0, limit);
+  }
+  return page;
+}
+
+export function selectFields<T extends Record<string, unknown>>(
+  obj: T,
+  fields: string[]
+): Partial<T> {
+  if (!fields.length) {
+    return obj;
+  }
+  const result: Partial<T> = {};
+  for (const field of fields) {
+    if (field in obj) {
+      result[field as keyof T] = obj[field as keyof T];
+    }
+  }
+  return result;
+}
+
+// A cursor carries the sort it was issued for, which overrides `sort` and
+// `order`
+function modelSort(query: Pick<ModelQuery, 'sort' | 'order' | 'cursor'>): {
+  cursor?: Cursor;
+  sort: ModelSortField;
+  order: SortOrder;
+} {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (cursor && !isModelSortField(cursor.sort)) {
+    throw new InvalidCursorError('Cursor was not issued for models');
+  }
+  return {
+    cursor,
+    sort: (cursor?.sort as ModelSortField | undefined) ?? query.sort ?? 'name',
+    order: cursor?.order ?? query.order ?? 'asc',
+  };
+}
+
+// Filter, sort, paginate and select fields in one pass
+export function queryModels(
+  models: Model[],
+  query: ModelQuery
+): QueryResult<Partial<Model>> {
+  const { cursor, sort, order } = modelSort(query);
+  const { matches, scores } = matchModels(models, query);
+  const sorted = sortModels(matches, sort, order, scores);
+  const page = pageByCursor(sorted, modelKey(sort, scores), {
+    sort,
+    order,
+    cursor,
+    limit: query.limit,
+    offset: query.offset,
+  });
+  const fields = query.fields ?? [];
+  // Results ranked by relevance carry their match score, unless `fields`
+  // leaves it out
+  const scored =
+    sort === 'relevance' && (!fields.length || fields.includes('score'));
+  return {
+    ...page,
+    total: matches.length,
+    items: page.items.map((m) => {
+      const item = fields.length ? selectFields(m, fields) : m;
+      return scored ? { ...item, score: scores.get(m) ?? 0 } : item;
+    }),
+  };
+}
+
+function matchProviders(
+  providers: Provider[],
+  query: ProviderQuery
+): { matches: Provider[]; scores: Scores<Provider> } {
+  const scores: Scores<Provider> = query.q
+    ? search(providers, PROVIDER_SEARCH_FIELDS, query.q)
+    : new Map();
+  const env = query.env?.toLowerCase();
+  const npm = query.npm?.toLowerCase();
+
+  const matches = providers.filter(
+    (p) =>
+      (!query.q || scores.has(p)) &&
+      (!env || p.env.some((e) => e.toLowerCase().includes(env))) &&
+      (!npm || Boolean(p.npm?.toLowerCase().includes(npm)))
+  );
+  return { matches, scores };
+}
+
+export function filterProviders(
+  providers: Provider[],
+  query: ProviderQuery
+): Provider[] {
+  return matchProviders(providers, query).matches;
+}
+
+function isProviderSortField(value: string): value is ProviderSortField {
+  return (PROVIDER_SORT_FIELDS as readonly string[]).includes(value);
+}
+
+function providerSort(query: Pick<ProviderQuery, 'sort' | 'cursor'>): {
+  cursor?: Cursor;
+  sort: ProviderSortField;
+  order: SortOrder;
+} {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (cursor && !isProviderSortField(cursor.sort)) {
+    throw new InvalidCursorError('Cursor was not issued for providers');
+  }
+  return {
+    cursor,
+    sort: (cursor?.sort as ProviderSortField | undefined) ?? query.sort ?? 'id',
+    order: cursor?.order ?? 'asc',
+  };
+}
+
+export function queryProviders(
+  providers: Provider[],
+  query: ProviderQuery
+): QueryResult<Provider> {
+  const { cursor, sort, order } = providerSort(query);
+
+  // Ties are broken by id so that cursors have a stable order
+  const { matches, scores } = matchProviders(providers, query);
+  const keyOf: (p: Provider) => CursorKey =
+    sort === 'relevance' ? relevanceKey(scores) : (p) => [p.id, p.id];
+  const sorted = matches.sort((a, b) => compareKeys(keyOf(a), keyOf(b), order));
+  const page = pageByCursor(sorted, keyOf, {
+    sort,
+    order,
+    cursor,
+    limit: query.limit,
+    offset: query.offset,
+  });
+  return {
+    ...page,
+    total: matches.length,
+    items:
+      sort === 'relevance'
+        ? page.items.map((p) => ({ ...p, score: scores.get(p) ?? 0 }))
+        : page.items,
+  };
+}
+
+// Results cut short after an item (e.g. by an output budget) rather than at
+// a page boundary continue from that item's cursor. The item has to carry
+// the fields its key is read from: the `score` of relevance results, and
+// for models narrowed by `fields`, the ones `modelKeyFields` lists.
+
+const MODEL_KEY_FIELDS: Record<ModelSortField, string[]> = {
+  name: ['name'],
+  provider: ['provider'],
+  release_date: ['release_date'],
+  last_updated: ['last_updated'],
+  cost_input: ['cost'],
+  cost_output: ['cost'],
+  context_limit: ['limit'],
+  output_limit: ['limit'],
+  relevance: ['score'],
+};
+
+export function modelKeyFields(
+  query: Pick<ModelQuery, 'sort' | 'order' | 'cursor'>
+): string[] {
+  return ['id', ...MODEL_KEY_FIELDS[modelSort(query).sort]];
+}
+
+export function modelCursorAfter(
+  item: Partial<Model> & { score?: number },
+  query: Pick<ModelQuery, 'sort' | 'order' | 'cursor'>
+): string {
+  const { sort, order } = modelSort(query);
+  const id = item.id ?? '';
+  const after: CursorKey =
+    sort === 'relevance'
+      ? [-(item.score ?? 0), id]
+      : [SORT_GETTERS[sort]({ ...item, id } as Model), id];
+  return encodeCursor({ sort, order, after });
+}
+
+export function providerCursorAfter(
+  item: Provider & { score?: number },
+  query: Pick<ProviderQuery, 'sort' | 'cursor'>
+): string {
+  const { sort, order } = providerSort(query);
+  const after: CursorKey =
+    sort === 'relevance' ? [-(item.score ?? 0), item.id] : [item.id, item.id];
+  return encodeCursor({ sort, order, after });
+}
+
+// Query string conversion
+
+type QueryParams = Record<string, string | undefined>;
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) {
+    return;
+  }
+  const num = Number.parseFloat(value);
+  return Number.isNaN(num) ? undefined : num;
+}
+
+function parseInteger(value: string | undefined): number | undefined {
+  if (!value) {
+    return;
+  }
+  const num = Number.parseInt(value, 10);
+  return Number.isNaN(num) ? undefined : num;
+}
+
+export function parseModelFilters(params: QueryParams): ModelFilters {
+  const filters: ModelFilters = {
+    q: params.q || undefined,
+    provider: params.provider || undefined,
+    modalities: parseList(params.modalities),
+    filter: params.filter || undefined,
+  };
+  for (const key of BOOLEAN_FILTERS) {
+    if (params[key]) {
+      filters[key] = params[key].toLowerCase() === 'true';
+    }
+  }
+  for (const key of NUMBER_FILTERS) {
+    filters[key] = parseNumber(params[key]);
+  }
+  for (const key of DATE_FILTERS) {
+    filters[key] = params[key] || undefined;
+  }
+  return filters;
+}
+
+export function parseModelQuery(params: QueryParams): ModelQuery {
+  const sort = params.sort ?? '';
+  return {
+    ...parseModelFilters(params),
+    sort: isModelSortField(sort) ? sort : undefined,
+    order: params.order === 'desc' ? 'desc' : 'asc',
+    limit: parseInteger(params.limit),
+    offset: parseInteger(params.offset),
+    cursor: params.cursor || undefined,
+    fields: parseList(params.fields),
+  };
+}
+
+export function parseProviderQuery(params: QueryParams): ProviderQuery {
+  const sort = params.sort ?? '';
+  return {
+    q: params.q || undefined,
+    env: params.env || undefined,
+    npm: params.npm || undefined,
+    sort: isProviderSortField(sort) ? sort : undefined,
+    limit: parseInteger(params.limit),
+    offset: parseInteger(params.offset),
+    cursor: params.cursor || undefined,
+  };
+}
+
+// Serialize a query for the REST API; lists become comma-separated
+export function toQueryParams(
+  query: ModelQuery | ProviderQuery
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const param = Array.isArray(value) ? value.join(',') : value;
+    if (param !== undefined && param !== '') {
+      params[key] = String(param);
+    }
+  }
+  return params;
+}
@@ -0,0 +1,90 @@
+import type { Model, Provider } from './types';
+
+// Resource URIs for catalog entries, as served by the MCP servers:
+//   model://{provider}/{model}  e.g. model://anthropic/claude-sonnet-4-5
+//   provider://{id}             e.g. provider://anthropic
+// The model segment is the id less its provider prefix, percent-encoded
+// since many ids contain slashes (openrouter:deepseek/deepseek-r1).
+
+export const MODEL_URI_TEMPLATE = 'model://{provider}/{model}';
+export const PROVIDER_URI_TEMPLATE = 'provider://{id}';
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+export type ResourceRef =
+  | { type: 'model'; provider: string; name: string }
+  | { type: 'provider'; id: string };
+
+// Listing entry for resources/list
+export type CatalogResource = {
+  uri: string;
+  name: string;
+  title: string;
+  mimeType: string;
+};
+
+const MODEL_URI = /^model:\/\/([^/]+)\/([^/]+)$/;
+const PROVIDER_URI = /^provider:\/\/([^/]+)\/?$/;
+
+type ModelKey = Pick<Model, 'id' | 'provider'>;
+
+// Model ids are `provider:name`
+export function modelName(model: ModelKey): string {
+  return model.id.slice(model.provider.length + 1);
+}
+
+export function modelUri(model: ModelKey): string {
+  return `model://${encodeURIComponent(model.provider)}/${encodeURIComponent(modelName(model))}`;
+}
+
+export function providerUri(provider: Pick<Provider, 'id'>): string {
+  return `provider://${encodeURIComponent(provider.id)}`;
+}
+
+// Null for URIs outside both schemes or with malformed escapes
+export function parseResourceUri(uri: string): ResourceRef | null {
+  try {
+    const model = MODEL_URI.exec(uri);
+    if (model) {
+      return {
+        type: 'model',
+        provider: decodeURIComponent(model[1]),
+        name: decodeURIComponent(model[2]),
+      };
+    }
+    const provider = PROVIDER_URI.exec(uri);
+    if (provider) {
+      return { type: 'provider', id: decodeURIComponent(provider[1]) };
+    }
+  } catch {
+    // URIError from decodeURIComponent
+  }
+  return null;
+}
+
+export function matchesModelRef(
+  model: ModelKey,
+  ref: { provider: string; name: string }
+): boolean {
+  return model.provider === ref.provider && modelName(model) === ref.name;
+}
+
+export function modelResource(
+  model: ModelKey & Pick<Model, 'name'>
+): CatalogResource {
+  return {
+    uri: modelUri(model),
+    name: model.id,
+    title: model.name ?? model.id,
+    mimeType: RESOURCE_MIME_TYPE,
+  };
+}
+
+export function providerResource(provider: Provider): CatalogResource {
+  return {
+    uri: providerUri(provider),
+    name: provider.id,
+    title: provider.name,
+    mimeType: RESOURCE_MIME_TYPE,
+  };
+}
@@ -0,0 +1,254 @@
+// Ranked fuzzy search over models and providers. Text fields are split into
+// terms and scored with BM25, weighting terms by the field they occur in.
+// Query terms match index terms exactly, as a prefix, inside a longer term,
+// or with a typo or two, each worth less than an exact match.
+
+// Relative weight of each searchable field
+export type SearchFields = Record<string, number>;
+
+export const MODEL_SEARCH_FIELDS: SearchFields = {
+  name: 3,
+  id: 2,
+  family: 2,
+  provider: 1,
+};
+
+export const PROVIDER_SEARCH_FIELDS: SearchFields = {
+  name: 2,
+  id: 2,
+};
+
+// Serializable so that generate.ts can build it ahead of time
+export type SearchIndex = {
+  // Number of documents, in the order of the list the index was built from
+  size: number;
+  // Field-weighted number of terms per document
+  lengths: number[];
+  averageLength: number;
+  // Term -> flattened pairs of [document, field-weighted term frequency]
+  postings: Record<string, number[]>;
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const IDF_SMOOTHING = 0.5;
+
+// How much a non-exact match is worth compared to an exact one
+const PREFIX_WEIGHT = 0.8;
+const INFIX_WEIGHT = 0.5;
+const TYPO_WEIGHT = 0.6;
+const MIN_INFIX_LENGTH = 3;
+const MIN_TYPO_LENGTH = 4;
+const TWO_TYPO_LENGTH = 8;
+
+const SCORE_PRECISION = 1000;
+
+const NON_ALPHANUMERIC = /[^a-z0-9]+/;
+const LETTER_DIGIT_BOUNDARY = /(?<=[a-z])(?=\d)/;
+
+// "GPT-4o", "gpt4o" and "gpt 4o" all become ["gpt", "4o"]
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(NON_ALPHANUMERIC)
+    .flatMap((part) => part.split(LETTER_DIGIT_BOUNDARY))
+    .filter(Boolean);
+}
+
+function addTerms(terms: Map<string, number>, text: string, weight: number) {
+  for (const term of tokenize(text)) {
+    terms.set(term, (terms.get(term) ?? 0) + weight);
+  }
+}
+
+export function buildSearchIndex(
+  items: readonly object[],
+  fields: SearchFields
+): SearchIndex {
+  const postings: Record<string, number[]> = {};
+  const lengths = items.map((item, doc) => {
+    const terms = new Map<string, number>();
+    for (const [field, weight] of Object.entries(fields)) {
+      const value = (item as Record<string, unknown>)[field];
+      if (typeof value === 'string') {
+        addTerms(terms, value, weight);
+      }
+    }
+    let length = 0;
+    for (const [term, frequency] of terms) {
+      postings[term] ??= [];
+      postings[term].push(doc, frequency);
+      length += frequency;
+    }
+    return length;
+  });
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    size: items.length,
+    lengths,
+    averageLength: items.length ? total / items.length : 0,
+    postings,
+  };
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous: number[] = [];
+  let current = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previous;
+    previous = current;
+    current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+  return current[b.length];
+}
+
+// Weight of index term `term` as a match for query term `query`, 0 if none
+function matchWeight(query: string, term: string): number {
+  if (term === query) {
+    return 1;
+  }
+  if (term.startsWith(query)) {
+    return PREFIX_WEIGHT;
+  }
+  if (query.length >= MIN_INFIX_LENGTH && term.includes(query)) {
+    return INFIX_WEIGHT;
+  }
+  if (query.length >= MIN_TYPO_LENGTH) {
+    const maxTypos = query.length >= TWO_TYPO_LENGTH ? 2 : 1;
+    if (editDistance(query, term, maxTypos) <= maxTypos) {
+      return TYPO_WEIGHT;
+    }
+  }
+  return 0;
+}
+
+// Best score of one query term in each document it matches. Every index
+// term the query term matches shares one idf, taken over all the documents
+// it matches, so a rare prefix or typo match can't outrank an exact one.
+function scoreTerm(index: SearchIndex, query: string): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const [term, postings] of Object.entries(index.postings)) {
+    const weight = matchWeight(query, term);
+    if (!weight) {
+      continue;
+    }
+    for (let i = 0; i < postings.length; i += 2) {
+      const doc = postings[i];
+      const frequency = weight * postings[i + 1];
+      frequencies.set(doc, Math.max(frequencies.get(doc) ?? 0, frequency));
+    }
+  }
+
+  const matching = frequencies.size;
+  const idf = Math.log(
+    1 + (index.size - matching + IDF_SMOOTHING) / (matching + IDF_SMOOTHING)
+  );
+  const scores = new Map<number, number>();
+  for (const [doc, frequency] of frequencies) {
+    const norm = 1 - B + (B * index.lengths[doc]) / index.averageLength;
+    scores.set(doc, (idf * frequency * (K1 + 1)) / (frequency + K1 * norm));
+  }
+  return scores;
+}
+
+// Documents matching every query term, with their relevance score
+export function searchIndex(
+  index: SearchIndex,
+  query: string
+): Map<number, number> {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) {
+    return new Map();
+  }
+  let results: Map<number, number> | undefined;
+  for (const term of terms) {
+    const scores = scoreTerm(index, term);
+    const combined = new Map<number, number>();
+    for (const [doc, score] of scores) {
+      const previous = results ? results.get(doc) : 0;
+      if (previous !== undefined) {
+        combined.set(doc, previous + score);
+      }
+    }
+    results = combined;
+  }
+  return results ?? new Map();
+}
+
+// Indexes by the list they describe and the field weights they were built
+// with, so each list is indexed at most once per set of weights
+const indexes = new WeakMap<readonly object[], Map<string, SearchIndex>>();
+
+function fieldsKey(fields: SearchFields): string {
+  return JSON.stringify(
+    Object.entries(fields).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function cachedIndexes(items: readonly object[]): Map<string, SearchIndex> {
+  let cached = indexes.get(items);
+  if (!cached) {
+    cached = new Map();
+    indexes.set(items, cached);
+  }
+  return cached;
+}
+
+// Use a prebuilt index of `items` weighted by `fields`; ignored when it
+// doesn't fit the list
+export function registerSearchIndex(
+  items: readonly object[],
+  fields: SearchFields,
+  index: SearchIndex
+): boolean {
+  if (index.size !== items.length) {
+    return false;
+  }
+  cachedIndexes(items).set(fieldsKey(fields), index);
+  return true;
+}
+
+// Items matching every term of `query`, with scores rounded for display
+export function search<T extends object>(
+  items: readonly T[],
+  fields: SearchFields,
+  query: string
+): Map<T, number> {
+  const cached = cachedIndexes(items);
+  const key = fieldsKey(fields);
+  let index = cached.get(key);
+  if (!index) {
+    index = buildSearchIndex(items, fields);
+    cached.set(key, index);
+  }
+  const results = new Map<T, number>();
+  for (const [doc, score] of searchIndex(index, query)) {
+    results.set(
+      items[doc],
+      Math.round(score * SCORE_PRECISION) / SCORE_PRECISION
+    );
+  }
+  return results;
+}
@@ -0,0 +1,67 @@
+// Autocompletion over ids and names, behind /v1/search/suggestions and MCP
+// argument completion. Values starting with the typed text rank first, then
+// those with a word starting with it, then any others containing it; shorter
+// values first within each group.
+
+export type SuggestionIndex = {
+  values: string[];
+  // Lower-cased `values`, for case-insensitive matching
+  lower: string[];
+};
+
+export type Suggestions = {
+  values: string[];
+  // Matches before the limit
+  total: number;
+};
+
+// Separators in ids and names, e.g. in "anthropic:claude-3-5-haiku"
+const WORD_SEPARATORS = ':/-_. ';
+
+const PREFIX = 0;
+const WORD_PREFIX = 1;
+const INFIX = 2;
+
+export function buildSuggestionIndex(
+  values: Iterable<string | undefined>
+): SuggestionIndex {
+  const unique = [
+    ...new Set([...values].filter((v): v is string => Boolean(v))),
+  ];
+  return { values: unique, lower: unique.map((v) => v.toLowerCase()) };
+}
+
+function matchRank(value: string, text: string): number | undefined {
+  let at = value.indexOf(text);
+  if (at === -1) {
+    return;
+  }
+  if (at === 0) {
+    return PREFIX;
+  }
+  for (; at !== -1; at = value.indexOf(text, at + 1)) {
+    if (WORD_SEPARATORS.includes(value[at - 1])) {
+      return WORD_PREFIX;
+    }
+  }
+  return INFIX;
+}
+
+export function suggest(
+  index: SuggestionIndex,
+  text: string,
+  limit: number
+): Suggestions {
+  const query = text.toLowerCase();
+  const groups: string[][] = [[], [], []];
+  index.lower.forEach((value, i) => {
+    const rank = matchRank(value, query);
+    if (rank !== undefined) {
+      groups[rank].push(index.values[i]);
+    }
+  });
+  const matches = groups.flatMap((group) =>
+    group.sort((a, b) => a.length - b.length || a.localeCompare(b))
+  );
+  return { values: matches.slice(0, limit), total: matches.length };
+}
@@ -0,0 +1,85 @@
+import type { FieldComparison, ModelComparison } from './compare';
+import type { Model, Provider } from './types';
+
+// One-line, human-readable summaries of catalog entries, shown next to the
+// structured results of the MCP tools
+
+const tokenCount = new Intl.NumberFormat('en', {
+  notation: 'compact',
+  maximumFractionDigits: 1,
+});
+
+export function formatTokens(tokens: number): string {
+  return tokenCount.format(tokens);
+}
+
+// e.g. "anthropic:claude-3-haiku-20240307 (Claude Haiku 3): $0.25 in /
+// $1.25 out per 1M tokens, 200K context, tools". Fields left out by a
+// `fields` selection are skipped.
+export function summarizeModel(model: Partial<Model>): string {
+  const { cost, limit } = model;
+  const details = [
+    cost?.input !== undefined &&
+      cost.output !== undefined &&
+      `$${cost.input} in / $${cost.output} out per 1M tokens`,
+    limit?.context && `${formatTokens(limit.context)} context`,
+    model.reasoning && 'reasoning',
+    model.tool_call && 'tools',
+    model.status,
+  ].filter(Boolean);
+  const name = model.name && model.name !== model.id ? ` (${model.name})` : '';
+  const head = `${model.id ?? 'unknown'}${name}`;
+  return details.length ? `${head}: ${details.join(', ')}` : head;
+}
+
+// e.g. "openai (OpenAI): OPENAI_API_KEY, @ai-sdk/openai"
+export function summarizeProvider(provider: Provider): string {
+  const details = [...provider.env, provider.npm].filter(Boolean);
+  const head = `${provider.id} (${provider.name})`;
+  return details.length ? `${head}: ${details.join(', ')}` : head;
+}
+
+export function summarizeList<T>(
+  items: T[],
+  summarize: (item: T) => string
+): string {
+  return items.map((item) => `- ${summarize(item)}`).join('\n');
+}
+
+const PREFERENCE_LABELS: Record<FieldComparison['prefer'], string> = {
+  lower: 'lower is better',
+  higher: 'higher is better',
+  true: 'supported is better',
+  newer: 'newer is better',
+  more: 'more is better',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null) {
+    return 'n/a';
+  }
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
+
+// Each model's number of best values, then every field the models differ
+// in, e.g. "- cost.input (lower is better): openai:gpt-4o 2.5 *,
+// anthropic:claude-sonnet-4-5 3", with the best values starred
+export function summarizeComparison(comparison: ModelComparison): string {
+  const models = summarizeList(comparison.models, (model) => {
+    const name =
+      model.name && model.name !== model.id ? ` (${model.name})` : '';
+    return `${model.id}${name}: best in ${model.wins} field${model.wins === 1 ? '' : 's'}`;
+  });
+  const differing = comparison.fields.filter((field) => field.differs);
+  if (!differing.length) {
+    return `${models}\n\nNo differences in the compared fields.`;
+  }
+  const fields = summarizeList(differing, (field) => {
+    const values = Object.entries(field.values).map(
+      ([id, value]) =>
+        `${id} ${formatValue(value)}${field.winners.includes(id) ? ' *' : ''}`
+    );
+    return `${field.field} (${PREFERENCE_LABELS[field.prefer]}): ${values.join(', ')}`;
+  });
+  return `${models}\n\nDifferences (* marks the best value):\n${fields}`;
+}
@@ -0,0 +1,58 @@
+// Catalog records as generated from the models.dev TOML files
+
+// Prices in USD per 1M tokens
+export type ModelCost = {
+  input?: number;
+  output?: number;
+  reasoning?: number;
+  cache_read?: number;
+  cache_write?: number;
+  input_audio?: number;
+  output_audio?: number;
+  context_over_200k?: ModelCost;
+};
+
+// A model's `[provider]` table, for models served through a different SDK or
+// endpoint than the rest of their provider's
+export type ModelProviderOverride = {
+  npm?: string;
+  api?: string;
+  shape?: 'responses' | 'completions';
+};
+
+export type Model = {
+  id: string;
+  provider: string;
+  name?: string;
+  release_date?: string;
+  last_updated?: string;
+  attachment?: boolean;
+  reasoning?: boolean;
+  temperature?: boolean;
+  tool_call?: boolean;
+  open_weights?: boolean;
+  structured_output?: boolean;
+  knowledge?: string;
+  cost?: ModelCost;
+  limit?: {
+    context?: number;
+    input?: number;
+    output?: number;
+  };
+  modalities?: {
+    input?: string[];
+    output?: string[];
+  };
+  provider_override?: ModelProviderOverride;
+  [key: string]: unknown;
+};
+
+export type Provider = {
+  id: string;
+  name: string;
+  env: string[];
+  npm?: string;
+  api?: string;
+  doc?: string;
+  [key: string]: unknown;
+};
@@ -0,0 +1,85 @@
+import type { ZodError } from 'zod';
+import {
+  Model as ModelSchema,
+  Provider as ProviderSchema,
+} from '../../../vendor/models.dev/packages/core/src/schema';
+
+// One problem found while loading the vendor data
+export type DataIssue = {
+  // Path relative to the models.dev root, e.g. providers/openai/provider.toml
+  file: string;
+  // Dotted path of the offending field, empty when the file does not parse
+  path: string;
+  message: string;
+};
+
+export type SkippedEntry = {
+  kind: 'provider' | 'model';
+  id: string;
+  file: string;
+  // Why the file could not be read; schema errors are listed in `errors`
+  reason?: string;
+};
+
+export type DataReport = {
+  generated_at: string;
+  mode: 'strict' | 'lenient';
+  providers: number;
+  models: number;
+  errors: DataIssue[];
+  // Entries left out of the generated data: unreadable files, and in
+  // lenient mode invalid ones
+  skipped: SkippedEntry[];
+};
+
+export class DataValidationError extends Error {
+  readonly issues: DataIssue[];
+
+  constructor(issues: DataIssue[]) {
+    super(`Invalid models.dev data:\n${formatIssues(issues)}`);
+    this.name = 'DataValidationError';
+    this.issues = issues;
+  }
+}
+
+export function formatIssues(issues: DataIssue[]): string {
+  return issues
+    .map((i) => `  ${i.file}${i.path ? ` (${i.path})` : ''}: ${i.message}`)
+    .join('\n');
+}
+
+export function parseIssue(file: string, error: unknown): DataIssue {
+  return {
+    file,
+    path: '',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function zodIssues(file: string, error: ZodError): DataIssue[] {
+  return error.issues.map((issue) => ({
+    file,
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+// Validate a parsed provider.toml; models are checked file by file
+export function checkProvider(
+  file: string,
+  id: string,
+  data: Record<string, unknown>
+): DataIssue[] {
+  const result = ProviderSchema.safeParse({ ...data, id, models: {} });
+  return result.success ? [] : zodIssues(file, result.error);
+}
+
+// Validate a parsed model TOML, before its `provider` table is renamed
+export function checkModel(
+  file: string,
+  id: string,
+  data: Record<string, unknown>
+): DataIssue[] {
+  const result = ModelSchema.safeParse({ ...data, id });
+  return result.success ? [] : zodIssues(file, result.error);
+}
@@ -3,7 +3,21 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: {
     index: 'src/index.ts',
+    compare: 'src/compare.ts',
+    completions: 'src/completions.ts',
+    connection: 'src/connection.ts',
+    cursor: 'src/cursor.ts',
+    estimate: 'src/estimate.ts',
+    filter: 'src/filter.ts',
     loader: 'src/loader.ts',
+    output: 'src/output.ts',
+    prompts: 'src/prompts.ts',
+    query: 'src/query.ts',
+    resources: 'src/resources.ts',
+    search: 'src/search.ts',
+    suggest: 'src/suggest.ts',
+    summary: 'src/summary.ts',
+    validate: 'src/validate.ts',
   },
   format: ['esm'],
   dts: true,
@@ -8,17 +8,26 @@ export default $config({
     };
   },
   async run() {
-    // Build the API
     const { spawnSync } = await import('node:child_process');
+    // Fail the deploy when a step fails; generate runs strict, so a catalog
+    // with invalid entries is never deployed
+    const run = (script: string) => {
+      const { status, error } = spawnSync('bun', ['run', script], {
+        cwd: './packages/api',
+        stdio: 'inherit',
+      });
+      if (status !== 0) {
+        throw new Error(
+          `bun run ${script} failed${error ? `: ${error.message}` : ` with exit code ${status}`}`
+        );
+      }
+    };
 
-    spawnSync('bun', ['run', 'build'], {
-      cwd: './packages/api',
-    });
+    // Build the API
+    run('build');
 
     // Generate runtime JSON assets after build (tsup cleans dist)
-    spawnSync('bun', ['run', 'generate'], {
-      cwd: './packages/api',
-    });
+    run('generate');
 
     // Create Cloudflare Worker
     const worker = new sst.cloudflare.Worker('Api', {